@@ -0,0 +1,6 @@
+/**
+ * Thrown when a OnceCell or Lazy initializer reads the cell it is initializing
+ */
+export class ReentrantInitError extends Error {
+  override name = "ReentrantInitError";
+}
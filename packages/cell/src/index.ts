@@ -0,0 +1,206 @@
+import { type MaybePromise, Option } from "@rustify/option";
+import { OptionCell } from "@rustify/option/cell";
+import { Result } from "@rustify/result";
+import { ReentrantInitError } from "./errors";
+
+/**
+ * Mutable slot for a single value, like Rust's std::cell::Cell
+ * Delegates to an OptionCell from @rustify/option, except that set takes the
+ * value itself like Rust's Cell::set. new Cell(value) starts full,
+ * new Cell<T>() starts empty
+ */
+export class Cell<T> {
+  private readonly _cell: OptionCell<T>;
+
+  constructor(...value: [] | [value: T]) {
+    this._cell = new OptionCell(
+      value.length === 0 ? Option.none : Option.some(value[0]),
+    );
+  }
+
+  get(): Option<T> {
+    return this._cell.get();
+  }
+
+  // Stores the value, dropping any previous one
+  set(value: T): void {
+    this._cell.insert(value);
+  }
+
+  // Takes the value out, leaving the cell empty
+  take(): Option<T> {
+    return this._cell.take();
+  }
+
+  // Takes the value out only if it matches the predicate
+  takeIf(predicate: (value: T) => boolean): Option<T> {
+    return this._cell.takeIf(predicate);
+  }
+
+  // Stores the value and returns the previous one
+  replace(value: T): Option<T> {
+    return this._cell.replace(value);
+  }
+
+  // Stores the value and returns it
+  insert(value: T): T {
+    return this._cell.insert(value);
+  }
+
+  getOrInsert(value: T): T {
+    return this._cell.getOrInsert(value);
+  }
+
+  // Returns the current value, storing the result of fn first if empty
+  getOrInsertWith(fn: () => T): T {
+    return this._cell.getOrInsertWith(fn);
+  }
+}
+
+/**
+ * Cell written at most once, like Rust's std::cell::OnceCell
+ * Replaces hand-rolled `if (!cached) cached = init()` memoization
+ */
+export class OnceCell<T> {
+  private _value: Option<T> = Option.none;
+  private _initializing = false;
+
+  get(): Option<T> {
+    return this._value;
+  }
+
+  /**
+   * Stores the value if the cell is empty
+   * Otherwise the value is handed back as Err, the cell keeps its value
+   */
+  set(value: T): Result<void, T> {
+    if (this._value.isSome() || this._initializing) {
+      return Result.err(value);
+    }
+    this._value = Option.some(value);
+    return Result.ok(undefined);
+  }
+
+  // Returns the value, running fn first if the cell is empty
+  getOrInit(fn: () => T): T {
+    return this.getOrTryInit<never>(() => Result.ok(fn())).unwrap();
+  }
+
+  /**
+   * Returns the value, running fn first if the cell is empty
+   * An Err from fn is returned as is and leaves the cell empty, so a later
+   * call tries again
+   */
+  getOrTryInit<E>(fn: () => Result<T, E>): Result<T, E> {
+    if (this._value.isSome()) {
+      return Result.ok(this._value.value);
+    }
+    if (this._initializing) {
+      throw new ReentrantInitError(
+        "OnceCell initialized from its own initializer",
+      );
+    }
+    this._initializing = true;
+    try {
+      const result = fn();
+      if (result.isOk()) {
+        this._value = Option.some(result.value);
+      }
+      return result;
+    } finally {
+      this._initializing = false;
+    }
+  }
+
+  // Takes the value out, leaving the cell empty for a new initialization
+  take(): Option<T> {
+    const previous = this._value;
+    this._value = Option.none;
+    return previous;
+  }
+}
+
+/**
+ * Value computed on first access, like Rust's std::cell::LazyCell
+ * If the initializer throws, the error propagates and the next force runs it again
+ */
+export class Lazy<T> {
+  private readonly _cell = new OnceCell<T>();
+
+  constructor(private readonly _init: () => T) {}
+
+  // Returns the value, running the initializer on first access
+  force(): T {
+    return this._cell.getOrInit(this._init);
+  }
+
+  // The value if it was already computed, without running the initializer
+  get(): Option<T> {
+    return this._cell.get();
+  }
+}
+
+/**
+ * OnceCell with an async initializer
+ * Concurrent calls share a single initialization instead of each running fn.
+ * When it fails, the failure only reaches the caller whose fn ran, and the
+ * next waiting caller runs its own fn
+ */
+export class AsyncOnceCell<T> {
+  private _value: Option<T> = Option.none;
+  private _pending: Promise<void> | undefined;
+
+  get(): Option<T> {
+    return this._value;
+  }
+
+  // Stores the value if the cell is empty and no initialization is running
+  set(value: T): Result<void, T> {
+    if (this._value.isSome() || this._pending !== undefined) {
+      return Result.err(value);
+    }
+    this._value = Option.some(value);
+    return Result.ok(undefined);
+  }
+
+  // Returns the value, running fn first if the cell is empty
+  async getOrInit(fn: () => MaybePromise<T>): Promise<T> {
+    const result = await this.getOrTryInit<never>(() =>
+      Promise.resolve()
+        .then(fn)
+        .then((value) => Result.ok(value)),
+    );
+    return result.unwrap();
+  }
+
+  /**
+   * Returns the value, running fn first if the cell is empty
+   * An Err or a rejection from fn reaches this caller only and leaves the
+   * cell empty
+   */
+  async getOrTryInit<E>(
+    fn: () => MaybePromise<Result<T, E>>,
+  ): Promise<Result<T, E>> {
+    while (this._pending !== undefined) {
+      await this._pending;
+    }
+    if (this._value.isSome()) {
+      return Result.ok(this._value.value);
+    }
+    const init = Promise.resolve()
+      .then(fn)
+      .then((result) => {
+        if (result.isOk()) {
+          this._value = Option.some(result.value);
+        }
+        return result;
+      });
+    const settle = () => {
+      this._pending = undefined;
+    };
+    this._pending = init.then(settle, settle);
+    return init;
+  }
+}
+
+export { ReentrantInitError } from "./errors";
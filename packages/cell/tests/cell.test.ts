@@ -0,0 +1,160 @@
+import { Err, Ok, type Result } from "@rustify/result";
+import { describe, expect, it } from "vitest";
+import {
+  AsyncOnceCell,
+  Cell,
+  Lazy,
+  OnceCell,
+  ReentrantInitError,
+} from "../src/index";
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("Cell", () => {
+  it("starts full or empty", () => {
+    expect(new Cell(1).get().unwrap()).toBe(1);
+    expect(new Cell<number>().get().isNone()).toBe(true);
+    expect(new Cell<undefined>(undefined).get().isSome()).toBe(true);
+  });
+
+  it("set and replace store the value", () => {
+    const cell = new Cell<number>();
+    cell.set(1);
+    expect(cell.get().unwrap()).toBe(1);
+    expect(cell.replace(2).unwrap()).toBe(1);
+    expect(cell.insert(3)).toBe(3);
+    expect(cell.takeIf((value) => value > 5).isNone()).toBe(true);
+    expect(cell.getOrInsertWith(() => 4)).toBe(3);
+  });
+
+  it("take leaves the cell empty", () => {
+    const cell = new Cell(1);
+    expect(cell.take().unwrap()).toBe(1);
+    expect(cell.get().isNone()).toBe(true);
+    expect(cell.take().isNone()).toBe(true);
+  });
+});
+
+describe("OnceCell", () => {
+  it("runs the initializer once", () => {
+    const cell = new OnceCell<number>();
+    let calls = 0;
+    const init = () => ++calls;
+    expect(cell.get().isNone()).toBe(true);
+    expect(cell.getOrInit(init)).toBe(1);
+    expect(cell.getOrInit(init)).toBe(1);
+    expect(cell.get().unwrap()).toBe(1);
+    expect(calls).toBe(1);
+  });
+
+  it("set only writes an empty cell", () => {
+    const cell = new OnceCell<number>();
+    expect(cell.set(1).isOk()).toBe(true);
+    expect(cell.set(2).unwrapErr()).toBe(2);
+    expect(cell.get().unwrap()).toBe(1);
+  });
+
+  it("getOrTryInit leaves the cell empty on Err", () => {
+    const cell = new OnceCell<number>();
+    const failed: Result<number, string> = cell.getOrTryInit(() => Err("boom"));
+    expect(failed.unwrapErr()).toBe("boom");
+    expect(cell.get().isNone()).toBe(true);
+    expect(cell.getOrTryInit(() => Ok(1)).unwrap()).toBe(1);
+    expect(cell.getOrTryInit(() => Err("ignored")).unwrap()).toBe(1);
+  });
+
+  it("throws on reentrant initialization", () => {
+    const cell: OnceCell<number> = new OnceCell();
+    expect(() => cell.getOrInit(() => cell.getOrInit(() => 1))).toThrow(
+      ReentrantInitError,
+    );
+    expect(cell.getOrInit(() => 2)).toBe(2);
+  });
+
+  it("take allows a new initialization", () => {
+    const cell = new OnceCell<number>();
+    cell.getOrInit(() => 1);
+    expect(cell.take().unwrap()).toBe(1);
+    expect(cell.getOrInit(() => 2)).toBe(2);
+  });
+});
+
+describe("Lazy", () => {
+  it("computes the value on first force", () => {
+    let calls = 0;
+    const lazy = new Lazy(() => ++calls);
+    expect(lazy.get().isNone()).toBe(true);
+    expect(calls).toBe(0);
+    expect(lazy.force()).toBe(1);
+    expect(lazy.force()).toBe(1);
+    expect(lazy.get().unwrap()).toBe(1);
+  });
+
+  it("runs the initializer again after it throws", () => {
+    let calls = 0;
+    const lazy = new Lazy(() => {
+      calls++;
+      if (calls === 1) {
+        throw new Error("first");
+      }
+      return calls;
+    });
+    expect(() => lazy.force()).toThrow("first");
+    expect(lazy.force()).toBe(2);
+  });
+});
+
+describe("AsyncOnceCell", () => {
+  it("dedupes concurrent initialization", async () => {
+    const cell = new AsyncOnceCell<number>();
+    const gate = deferred<number>();
+    let calls = 0;
+    const init = () => {
+      calls++;
+      return gate.promise;
+    };
+    const first = cell.getOrInit(init);
+    const second = cell.getOrInit(init);
+    await Promise.resolve();
+    expect(cell.set(0).isErr()).toBe(true);
+    gate.resolve(1);
+    expect(await Promise.all([first, second])).toEqual([1, 1]);
+    expect(calls).toBe(1);
+    expect(cell.get().unwrap()).toBe(1);
+  });
+
+  it("lets the next caller initialize after a rejection", async () => {
+    const cell = new AsyncOnceCell<number>();
+    const gate = deferred<number>();
+    const first = cell.getOrInit(() => gate.promise);
+    const second = cell.getOrInit(async () => 2);
+    gate.reject(new Error("boom"));
+    await expect(first).rejects.toThrow("boom");
+    expect(await second).toBe(2);
+    expect(await cell.getOrInit(async () => 3)).toBe(2);
+  });
+
+  it("getOrTryInit returns the Err to its own caller only", async () => {
+    const cell = new AsyncOnceCell<string>();
+    const failed = cell.getOrTryInit(async () => Err(404));
+    const waiting = cell.getOrTryInit(() => Ok("value"));
+    expect((await failed).unwrapErr()).toBe(404);
+    expect((await waiting).unwrap()).toBe("value");
+    expect(cell.get().unwrap()).toBe("value");
+  });
+
+  it("set only writes an empty cell", async () => {
+    const cell = new AsyncOnceCell<number>();
+    expect(cell.set(1).isOk()).toBe(true);
+    expect(cell.set(2).unwrapErr()).toBe(2);
+    expect(await cell.getOrInit(() => 3)).toBe(1);
+  });
+});
@@ -0,0 +1,227 @@
+import { None, type Option, Some } from "@rustify/option";
+
+// Values with a natural order, Dates are compared by their timestamp
+export type Comparable = number | string | bigint | boolean | Date;
+
+/**
+ * Result of a comparison, like Rust's std::cmp::Ordering
+ * There are exactly three frozen instances, so they can be compared with ===
+ */
+export class Ordering {
+  private constructor(private readonly _value: -1 | 0 | 1) {}
+
+  static readonly Less = Object.freeze(new Ordering(-1)) as Ordering;
+  static readonly Equal = Object.freeze(new Ordering(0)) as Ordering;
+  static readonly Greater = Object.freeze(new Ordering(1)) as Ordering;
+
+  /**
+   * Ordering of a compareFn-style number by its sign
+   * NaN counts as Equal, like in Array#sort
+   */
+  static from(value: number): Ordering {
+    if (value < 0) {
+      return Ordering.Less;
+    }
+    return value > 0 ? Ordering.Greater : Ordering.Equal;
+  }
+
+  // Predicates
+  isLt(): boolean {
+    return this._value < 0;
+  }
+
+  isLe(): boolean {
+    return this._value <= 0;
+  }
+
+  isEq(): boolean {
+    return this._value === 0;
+  }
+
+  isNe(): boolean {
+    return this._value !== 0;
+  }
+
+  isGt(): boolean {
+    return this._value > 0;
+  }
+
+  isGe(): boolean {
+    return this._value >= 0;
+  }
+
+  /**
+   * Rust's then, the other ordering only decides ties
+   * A method named then would make Orderings thenables, breaking await
+   */
+  thenCmp(other: Ordering): Ordering {
+    return this._value === 0 ? other : this;
+  }
+
+  // Like thenCmp, but only computes the other ordering on a tie
+  thenWith(fn: () => Ordering): Ordering {
+    return this._value === 0 ? fn() : this;
+  }
+
+  // Swaps Less and Greater
+  reverse(): Ordering {
+    return Ordering.from(-this._value);
+  }
+
+  // -1, 0 or 1, as expected by Array#sort
+  toNumber(): -1 | 0 | 1 {
+    return this._value;
+  }
+
+  toString(): "Less" | "Equal" | "Greater" {
+    if (this._value < 0) {
+      return "Less";
+    }
+    return this._value > 0 ? "Greater" : "Equal";
+  }
+}
+
+export const Less = Ordering.Less;
+export const Equal = Ordering.Equal;
+export const Greater = Ordering.Greater;
+
+export type Comparator<T> = (a: T, b: T) => Ordering;
+
+/**
+ * Compares two values that may be unordered, like Rust's PartialOrd
+ * Returns None when neither is smaller nor are they equal, e.g. for NaN
+ */
+export const partialCmp = <T extends Comparable>(
+  a: T,
+  b: T,
+): Option<Ordering> => {
+  const x = a.valueOf();
+  const y = b.valueOf();
+  if (x < y) {
+    return Some(Ordering.Less);
+  }
+  if (x > y) {
+    return Some(Ordering.Greater);
+  }
+  return x === y ? Some(Ordering.Equal) : None;
+};
+
+/**
+ * Natural order of Comparable values, like Rust's Ord::cmp
+ * Unordered values (NaN) count as Equal, use partialCmp to detect them
+ */
+export const cmp = <T extends Comparable>(a: T, b: T): Ordering =>
+  partialCmp(a, b).unwrapOr(Ordering.Equal);
+
+// Adapts a Comparator to the compareFn of Array#sort and friends
+export const toCompareFn =
+  <T>(compare: Comparator<T>): ((a: T, b: T) => number) =>
+  (a, b) =>
+    compare(a, b).toNumber();
+
+// Comparator builders
+
+/**
+ * Compares items by a key, like Rust's sort_by_key
+ * Keys are compared by their natural order unless a comparator is given
+ */
+export function byKey<T, K extends Comparable>(
+  key: (item: T) => K,
+): Comparator<T>;
+export function byKey<T, K>(
+  key: (item: T) => K,
+  compare: Comparator<K>,
+): Comparator<T>;
+export function byKey<T>(
+  key: (item: T) => Comparable,
+  compare: Comparator<Comparable> = cmp,
+): Comparator<T> {
+  return (a, b) => compare(key(a), key(b));
+}
+
+/**
+ * Compares items by each key in turn, later keys only break ties
+ */
+export const byKeys =
+  <T>(...keys: ((item: T) => Comparable)[]): Comparator<T> =>
+  (a, b) => {
+    for (const key of keys) {
+      const ordering = cmp(key(a), key(b));
+      if (ordering.isNe()) {
+        return ordering;
+      }
+    }
+    return Ordering.Equal;
+  };
+
+// Reverses a comparator, like Rust's Reverse wrapper
+export const reverse =
+  <T>(compare: Comparator<T>): Comparator<T> =>
+  (a, b) =>
+    compare(a, b).reverse();
+
+/**
+ * Compares Options like Rust does, None before any Some, then Somes by
+ * their values
+ */
+export function byOption<T extends Comparable>(): Comparator<Option<T>>;
+export function byOption<T>(compare: Comparator<T>): Comparator<Option<T>>;
+export function byOption<T>(
+  compare: Comparator<T> = cmp as Comparator<unknown>,
+): Comparator<Option<T>> {
+  return (a, b) => Ordering.from(a.compare(b, toCompareFn(compare)));
+}
+
+// Min, max and clamp
+
+/**
+ * The smaller of two values, the first one when they are equal
+ */
+export function min<T extends Comparable>(a: T, b: T): T;
+export function min<T>(a: T, b: T, compare: Comparator<T>): T;
+export function min<T>(
+  a: T,
+  b: T,
+  compare: Comparator<T> = cmp as Comparator<unknown>,
+): T {
+  return compare(a, b).isGt() ? b : a;
+}
+
+/**
+ * The larger of two values, the second one when they are equal
+ */
+export function max<T extends Comparable>(a: T, b: T): T;
+export function max<T>(a: T, b: T, compare: Comparator<T>): T;
+export function max<T>(
+  a: T,
+  b: T,
+  compare: Comparator<T> = cmp as Comparator<unknown>,
+): T {
+  return compare(a, b).isGt() ? a : b;
+}
+
+/**
+ * Restricts a value to the [lower, upper] interval
+ * Throws a RangeError when lower is greater than upper
+ */
+export function clamp<T extends Comparable>(value: T, lower: T, upper: T): T;
+export function clamp<T>(
+  value: T,
+  lower: T,
+  upper: T,
+  compare: Comparator<T>,
+): T;
+export function clamp<T>(
+  value: T,
+  lower: T,
+  upper: T,
+  compare: Comparator<T> = cmp as Comparator<unknown>,
+): T {
+  if (compare(lower, upper).isGt()) {
+    throw new RangeError(`Invalid clamp bounds: ${lower} > ${upper}`);
+  }
+  if (compare(value, lower).isLt()) {
+    return lower;
+  }
+  return compare(value, upper).isGt() ? upper : value;
+}
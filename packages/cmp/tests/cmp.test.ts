@@ -0,0 +1,166 @@
+import { None, Some } from "@rustify/option";
+import { describe, expect, it } from "vitest";
+import {
+  byKey,
+  byKeys,
+  byOption,
+  clamp,
+  cmp,
+  Equal,
+  Greater,
+  Less,
+  max,
+  min,
+  Ordering,
+  partialCmp,
+  reverse,
+  toCompareFn,
+} from "../src/index";
+
+type User = { name: string; age: number };
+
+const users: User[] = [
+  { name: "Grace", age: 45 },
+  { name: "Ada", age: 36 },
+  { name: "Alan", age: 41 },
+  { name: "Barbara", age: 36 },
+];
+
+const names = (list: User[]) => list.map((user) => user.name);
+
+describe("Ordering", () => {
+  it("has exactly three frozen instances", () => {
+    expect(Ordering.from(-5)).toBe(Less);
+    expect(Ordering.from(0)).toBe(Equal);
+    expect(Ordering.from(0.5)).toBe(Greater);
+    expect(Ordering.from(Number.NaN)).toBe(Equal);
+    expect(Object.isFrozen(Less)).toBe(true);
+  });
+
+  it("answers predicates", () => {
+    expect(Less.isLt()).toBe(true);
+    expect(Less.isLe()).toBe(true);
+    expect(Equal.isLe()).toBe(true);
+    expect(Equal.isEq()).toBe(true);
+    expect(Equal.isGe()).toBe(true);
+    expect(Greater.isGt()).toBe(true);
+    expect(Greater.isNe()).toBe(true);
+    expect(Greater.isLe()).toBe(false);
+  });
+
+  it("thenCmp only uses the other ordering on a tie", () => {
+    expect(Less.thenCmp(Greater)).toBe(Less);
+    expect(Equal.thenCmp(Greater)).toBe(Greater);
+  });
+
+  it("is not a thenable", async () => {
+    expect(await Promise.resolve(Less)).toBe(Less);
+  });
+
+  it("thenWith only computes the other ordering on a tie", () => {
+    let called = false;
+    const other = () => {
+      called = true;
+      return Less;
+    };
+    expect(Greater.thenWith(other)).toBe(Greater);
+    expect(called).toBe(false);
+    expect(Equal.thenWith(other)).toBe(Less);
+    expect(called).toBe(true);
+  });
+
+  it("reverses and converts", () => {
+    expect(Less.reverse()).toBe(Greater);
+    expect(Equal.reverse()).toBe(Equal);
+    expect(Greater.reverse()).toBe(Less);
+    expect([Less, Equal, Greater].map((o) => o.toNumber())).toEqual([-1, 0, 1]);
+    expect(`${Greater}`).toBe("Greater");
+  });
+});
+
+describe("cmp and partialCmp", () => {
+  it("compares by natural order", () => {
+    expect(cmp(1, 2)).toBe(Less);
+    expect(cmp("b", "a")).toBe(Greater);
+    expect(cmp(2n, 2n)).toBe(Equal);
+    expect(cmp(false, true)).toBe(Less);
+    expect(cmp(new Date(1), new Date(1))).toBe(Equal);
+  });
+
+  it("returns None for unordered values", () => {
+    expect(partialCmp(1, 2).unwrap()).toBe(Less);
+    expect(partialCmp(Number.NaN, 1).isNone()).toBe(true);
+    expect(partialCmp(new Date(Number.NaN), new Date(0)).isNone()).toBe(true);
+    expect(cmp(Number.NaN, 1)).toBe(Equal);
+  });
+});
+
+describe("comparators", () => {
+  it("sort with toCompareFn", () => {
+    expect([3, 1, 2].sort(toCompareFn(cmp))).toEqual([1, 2, 3]);
+  });
+
+  it("byKey compares by a key", () => {
+    const byName = byKey((user: User) => user.name);
+    expect(names(users.toSorted(toCompareFn(byName)))).toEqual([
+      "Ada",
+      "Alan",
+      "Barbara",
+      "Grace",
+    ]);
+    const byNameLength = byKey(
+      (user: User) => user.name,
+      (a, b) => cmp(a.length, b.length),
+    );
+    expect(byNameLength(users[1]!, users[0]!)).toBe(Less);
+  });
+
+  it("byKeys breaks ties with later keys", () => {
+    const byAgeThenName = byKeys(
+      (user: User) => user.age,
+      (user) => user.name,
+    );
+    expect(names(users.toSorted(toCompareFn(byAgeThenName)))).toEqual([
+      "Ada",
+      "Barbara",
+      "Alan",
+      "Grace",
+    ]);
+  });
+
+  it("reverse flips a comparator", () => {
+    const oldestFirst = reverse(byKey((user: User) => user.age));
+    expect(names(users.toSorted(toCompareFn(oldestFirst)))[0]).toBe("Grace");
+  });
+
+  it("byOption puts None before any Some", () => {
+    expect(
+      [Some(2), None, Some(1)]
+        .sort(toCompareFn(byOption<number>()))
+        .map((option) => option.toNullable()),
+    ).toEqual([null, 1, 2]);
+    const byLength = byOption((a: string, b: string) =>
+      cmp(a.length, b.length),
+    );
+    expect(byLength(Some("ab"), Some("c"))).toBe(Greater);
+  });
+});
+
+describe("min, max and clamp", () => {
+  it("min and max keep Rust's tie-breaking", () => {
+    const a = { name: "a", age: 1 };
+    const b = { name: "b", age: 1 };
+    const byAge = byKey((user: User) => user.age);
+    expect(min(1, 2)).toBe(1);
+    expect(max("a", "b")).toBe("b");
+    expect(min(a, b, byAge)).toBe(a);
+    expect(max(a, b, byAge)).toBe(b);
+  });
+
+  it("clamp restricts a value to bounds", () => {
+    expect(clamp(5, 0, 3)).toBe(3);
+    expect(clamp(-1, 0, 3)).toBe(0);
+    expect(clamp(2, 0, 3)).toBe(2);
+    expect(() => clamp(1, 3, 0)).toThrow(RangeError);
+  });
+});
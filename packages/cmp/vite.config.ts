@@ -0,0 +1,27 @@
+import { resolve } from 'node:path'
+import { defineConfig } from 'vite'
+import dts from 'vite-plugin-dts'
+
+export default defineConfig({
+  plugins: [dts({ include: ['src/**/*'] })],
+  build: {
+    lib: {
+      entry: {
+        index: resolve(__dirname, 'src/index.ts')
+      },
+      formats: ['es'],
+    },
+    rollupOptions: {
+      external: [/^@rustify\/option(\/|$)/]
+    },
+    sourcemap: true,
+  },
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src')
+    }
+  },
+  define: {
+    'import.meta.vitest': 'undefined'
+  }
+})
\ No newline at end of file
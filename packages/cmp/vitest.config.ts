@@ -0,0 +1,24 @@
+import { resolve } from 'node:path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+      '@rustify/option': resolve(__dirname, '../option/src/index.ts')
+    }
+  },
+  test: {
+    coverage: {
+      provider: 'v8',
+      reporter: ['text', 'html', 'lcov'],
+      exclude: [
+        'coverage/**',
+        'dist/**',
+        'tests/**',
+        '*.config.*',
+        'node_modules/**'
+      ]
+    }
+  }
+})
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { type MaybePromise, Option } from "./index";
+
+/**
+ * Awaitable wrapper around Promise<Option<T>>
+ * Mirrors the Option API so async lookups can be chained without awaiting each one
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  private constructor(private readonly _promise: Promise<Option<T>>) {}
+
+  // Static factory methods
+  static from<T>(option: MaybePromise<Option<T>>): AsyncOption<T> {
+    return new AsyncOption(Promise.resolve(option));
+  }
+
+  static some<T>(value: T): AsyncOption<T> {
+    return AsyncOption.from(Option.some(value));
+  }
+
+  static get none(): AsyncOption<never> {
+    return AsyncOption.from(Option.none);
+  }
+
+  /**
+   * Async counterpart of Option.gen, `yield*` accepts the try() of both Options
+   * and AsyncOptions
+   */
+  static gen<T>(
+    body: () => AsyncGenerator<undefined, T, unknown>,
+  ): AsyncOption<T> {
+    return AsyncOption.from(
+      (async (): Promise<Option<T>> => {
+        const iterator = body();
+        const next = await iterator.next();
+        if (next.done) {
+          return Option.some(next.value);
+        }
+        await iterator.return(undefined as T);
+        return Option.none;
+      })(),
+    );
+  }
+
+  // PromiseLike implementation
+  // biome-ignore lint/suspicious/noThenProperty: AsyncOption is meant to be awaited
+  then<R1 = Option<T>, R2 = never>(
+    onfulfilled?: ((option: Option<T>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  // Type guards
+  isSome(): Promise<boolean> {
+    return this._promise.then((option) => option.isSome());
+  }
+
+  isNone(): Promise<boolean> {
+    return this._promise.then((option) => option.isNone());
+  }
+
+  // Core methods
+  map<U>(fn: (value: T) => MaybePromise<U>): AsyncOption<U> {
+    return this.chain(
+      async (option): Promise<Option<U>> =>
+        option.isSome() ? Option.some(await fn(option.value)) : Option.none,
+    );
+  }
+
+  and<U>(other: MaybePromise<Option<U>>): AsyncOption<U> {
+    return this.chain((option) => (option.isSome() ? other : Option.none));
+  }
+
+  andThen<U>(fn: (value: T) => MaybePromise<Option<U>>): AsyncOption<U> {
+    return this.chain((option) =>
+      option.isSome() ? fn(option.value) : Option.none,
+    );
+  }
+
+  or<U>(other: MaybePromise<Option<U>>): AsyncOption<T | U> {
+    return this.chain(
+      (option): MaybePromise<Option<T | U>> =>
+        option.isSome() ? option : other,
+    );
+  }
+
+  orElse<U>(fn: () => MaybePromise<Option<U>>): AsyncOption<T | U> {
+    return this.chain(
+      (option): MaybePromise<Option<T | U>> =>
+        option.isSome() ? option : fn(),
+    );
+  }
+
+  filter(predicate: (value: T) => MaybePromise<boolean>): AsyncOption<T> {
+    return this.chain(async (option) =>
+      option.isSome() && (await predicate(option.value)) ? option : Option.none,
+    );
+  }
+
+  unwrap(): Promise<T> {
+    return this._promise.then((option) => option.unwrap());
+  }
+
+  unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return this._promise.then((option) => option.unwrapOr(defaultValue));
+  }
+
+  async unwrapOrElse<U>(fn: () => MaybePromise<U>): Promise<T | U> {
+    const option = await this._promise;
+    return option.isSome() ? option.value : fn();
+  }
+
+  expect(message: string): Promise<T> {
+    return this._promise.then((option) => option.expect(message));
+  }
+
+  async match<A, B>(handlers: {
+    some: (value: T) => MaybePromise<A>;
+    none: () => MaybePromise<B>;
+  }): Promise<A | B> {
+    const option = await this._promise;
+    return option.match(handlers);
+  }
+
+  // Same as Option's iterator, for `for await`
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    yield* (await this._promise).iter();
+  }
+
+  // Used by `yield*` inside AsyncOption.gen
+  async *try(): AsyncGenerator<undefined, T, unknown> {
+    return yield* (await this._promise).try();
+  }
+
+  private chain<U>(
+    fn: (option: Option<T>) => MaybePromise<Option<U>>,
+  ): AsyncOption<U> {
+    return new AsyncOption(this._promise.then(fn));
+  }
+}
@@ -0,0 +1,59 @@
+import { Option } from "./index";
+
+/**
+ * Mutable slot holding an Option
+ * Provides the methods that take `&mut self` on Rust's Option, which the
+ * immutable Option class cannot offer
+ */
+export class OptionCell<T> {
+  private _option: Option<T>;
+
+  constructor(option: Option<T> = Option.none) {
+    this._option = option;
+  }
+
+  get(): Option<T> {
+    return this._option;
+  }
+
+  set(option: Option<T>): void {
+    this._option = option;
+  }
+
+  // Takes the Option out, leaving None in its place
+  take(): Option<T> {
+    const option = this._option;
+    this._option = Option.none;
+    return option;
+  }
+
+  // Takes the Option out only if its value matches the predicate
+  takeIf(predicate: (value: T) => boolean): Option<T> {
+    return this._option.isSomeAnd(predicate) ? this.take() : Option.none;
+  }
+
+  // Stores Some(value) and returns the previous Option
+  replace(value: T): Option<T> {
+    const option = this._option;
+    this._option = Option.some(value);
+    return option;
+  }
+
+  // Stores Some(value), dropping any previous value, and returns the value
+  insert(value: T): T {
+    this._option = Option.some(value);
+    return value;
+  }
+
+  getOrInsert(value: T): T {
+    return this.getOrInsertWith(() => value);
+  }
+
+  // Returns the current value, storing the result of fn first if empty
+  getOrInsertWith(fn: () => T): T {
+    if (this._option.isNone()) {
+      this._option = Option.some(fn());
+    }
+    return this._option.value;
+  }
+}
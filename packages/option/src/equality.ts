@@ -0,0 +1,146 @@
+type Keyed = ReadonlySet<unknown> | ReadonlyMap<unknown, unknown>;
+
+// Pairs every key of a with a distinct deeply equal key of b, keys shared by
+// identity first, then `entryEqual` compares what the paired keys hold
+const pairKeys = (
+  a: Keyed,
+  b: Keyed,
+  entryEqual: (keyA: unknown, keyB: unknown) => boolean,
+): boolean => {
+  const unmatched = [...b.keys()].filter((key) => !a.has(key));
+  return [...a.keys()].every((key) => {
+    if (b.has(key)) {
+      return entryEqual(key, key);
+    }
+    const index = unmatched.findIndex(
+      (other) => deepEqual(key, other) && entryEqual(key, other),
+    );
+    if (index === -1) {
+      return false;
+    }
+    unmatched.splice(index, 1);
+    return true;
+  });
+};
+
+/**
+ * Structural equality: primitives are compared with Object.is, objects must
+ * share their prototype and have deeply equal own enumerable properties.
+ * Dates, Maps and Sets are compared by content, Map keys and Set members
+ * deeply as well, and Errors by name and message too, which also covers
+ * Options and Results nested at any depth
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime());
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return (
+      a.size === other.size &&
+      pairKeys(a, other, (keyA, keyB) =>
+        deepEqual(a.get(keyA), other.get(keyB)),
+      )
+    );
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && pairKeys(a, other, () => true);
+  }
+  if (
+    a instanceof Error &&
+    (a.name !== (b as Error).name || a.message !== (b as Error).message)
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  const record = a as Record<string, unknown>;
+  const otherRecord = b as Record<string, unknown>;
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.hasOwn(b, key) && deepEqual(record[key], otherRecord[key]),
+    )
+  );
+};
+
+const sorted = (keys: string[]) => keys.sort().join(",");
+
+// Constructor name of objects deepEqual tells apart by prototype, empty for
+// plain objects
+const prototypeName = (value: object): string => {
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype) {
+    return "";
+  }
+  return prototype === null ? "null" : String(prototype.constructor?.name);
+};
+
+/**
+ * Stable string key of a value, equal for deeply equal values, so it can
+ * stand in for the value in Maps and Sets. Like deepEqual it tells -0 from 0
+ * and objects apart by constructor. Objects with a `hashKey` method (Options
+ * and Results) use it
+ */
+export const toHashKey = (value: unknown): string => {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "bigint":
+      return `${value}n`;
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "object":
+      break;
+    default:
+      return String(value);
+  }
+  if (value === null) {
+    return "null";
+  }
+  const hashKey = (value as { hashKey?: unknown }).hashKey;
+  if (typeof hashKey === "function") {
+    return hashKey.call(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toHashKey).join(",")}]`;
+  }
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(
+      ([key, entry]) => `${toHashKey(key)}=>${toHashKey(entry)}`,
+    );
+    return `Map{${sorted(entries)}}`;
+  }
+  if (value instanceof Set) {
+    return `Set{${sorted([...value].map(toHashKey))}}`;
+  }
+  const record = value as Record<string, unknown>;
+  const fields = Object.keys(record).map(
+    (key) => `${JSON.stringify(key)}:${toHashKey(record[key])}`,
+  );
+  const prefix =
+    value instanceof Error
+      ? `${value.name}(${JSON.stringify(value.message)})`
+      : prototypeName(value);
+  return `${prefix}{${sorted(fields)}}`;
+};
+
+// Natural ordering of primitives, used when no comparator is given
+export const naturalOrder = (a: unknown, b: unknown): number =>
+  (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
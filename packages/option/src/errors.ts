@@ -0,0 +1,6 @@
+/**
+ * Thrown when unwrapping a None, by unwrap, expect or the value getter
+ */
+export class NoneUnwrapError extends Error {
+  override name = "NoneUnwrapError";
+}
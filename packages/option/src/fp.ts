@@ -0,0 +1,173 @@
+import { dual } from "./function";
+import type { None, Option, Some } from "./index";
+
+// Standalone versions of the Option methods, for pipe and tree-shaking
+// Each one delegates to the method of the same name, those taking more
+// arguments are built with dual
+
+// Type guards
+export const isSome = <T>(self: Option<T>): self is Some<T> => self.isSome();
+
+export const isNone = <T>(self: Option<T>): self is None<T> => self.isNone();
+
+export const isSomeAnd: {
+  <T>(predicate: (value: T) => boolean): (self: Option<T>) => boolean;
+  <T>(self: Option<T>, predicate: (value: T) => boolean): boolean;
+} = dual(2, <T>(self: Option<T>, predicate: (value: T) => boolean) =>
+  self.isSomeAnd(predicate),
+);
+
+export const isNoneOr: {
+  <T>(predicate: (value: T) => boolean): (self: Option<T>) => boolean;
+  <T>(self: Option<T>, predicate: (value: T) => boolean): boolean;
+} = dual(2, <T>(self: Option<T>, predicate: (value: T) => boolean) =>
+  self.isNoneOr(predicate),
+);
+
+export const contains: {
+  <T>(value: T): (self: Option<T>) => boolean;
+  <T>(self: Option<T>, value: T): boolean;
+} = dual(2, <T>(self: Option<T>, value: T) => self.contains(value));
+
+// Core methods
+export const map: {
+  <T, U>(fn: (value: T) => U): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, fn: (value: T) => U): Option<U>;
+} = dual(2, <T, U>(self: Option<T>, fn: (value: T) => U) => self.map(fn));
+
+export const mapOr: {
+  <T, U>(defaultValue: U, fn: (value: T) => U): (self: Option<T>) => U;
+  <T, U>(self: Option<T>, defaultValue: U, fn: (value: T) => U): U;
+} = dual(3, <T, U>(self: Option<T>, defaultValue: U, fn: (value: T) => U) =>
+  self.mapOr(defaultValue, fn),
+);
+
+export const mapOrElse: {
+  <T, U>(defaultFn: () => U, fn: (value: T) => U): (self: Option<T>) => U;
+  <T, U>(self: Option<T>, defaultFn: () => U, fn: (value: T) => U): U;
+} = dual(3, <T, U>(self: Option<T>, defaultFn: () => U, fn: (value: T) => U) =>
+  self.mapOrElse(defaultFn, fn),
+);
+
+export const and: {
+  <U>(other: Option<U>): <T>(self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, other: Option<U>): Option<U>;
+} = dual(2, <T, U>(self: Option<T>, other: Option<U>) => self.and(other));
+
+export const andThen: {
+  <T, U>(fn: (value: T) => Option<U>): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, fn: (value: T) => Option<U>): Option<U>;
+} = dual(2, <T, U>(self: Option<T>, fn: (value: T) => Option<U>) =>
+  self.andThen(fn),
+);
+
+export const flatMap: {
+  <T, U>(fn: (value: T) => Option<U>): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, fn: (value: T) => Option<U>): Option<U>;
+} = dual(2, <T, U>(self: Option<T>, fn: (value: T) => Option<U>) =>
+  self.flatMap(fn),
+);
+
+export const flatten = <U>(self: Option<Option<U>>): Option<U> =>
+  self.flatten();
+
+export const or: {
+  <U>(other: Option<U>): <T>(self: Option<T>) => Option<T | U>;
+  <T, U>(self: Option<T>, other: Option<U>): Option<T | U>;
+} = dual(2, <T, U>(self: Option<T>, other: Option<U>) => self.or(other));
+
+export const orElse: {
+  <U>(fn: () => Option<U>): <T>(self: Option<T>) => Option<T | U>;
+  <T, U>(self: Option<T>, fn: () => Option<U>): Option<T | U>;
+} = dual(2, <T, U>(self: Option<T>, fn: () => Option<U>) => self.orElse(fn));
+
+export const xor: {
+  <T>(other: Option<T>): (self: Option<T>) => Option<T>;
+  <T>(self: Option<T>, other: Option<T>): Option<T>;
+} = dual(2, <T>(self: Option<T>, other: Option<T>) => self.xor(other));
+
+export const zip: {
+  <U>(other: Option<U>): <T>(self: Option<T>) => Option<[T, U]>;
+  <T, U>(self: Option<T>, other: Option<U>): Option<[T, U]>;
+} = dual(2, <T, U>(self: Option<T>, other: Option<U>) => self.zip(other));
+
+export const zipWith: {
+  <T, U, R>(
+    other: Option<U>,
+    fn: (a: T, b: U) => R,
+  ): (self: Option<T>) => Option<R>;
+  <T, U, R>(
+    self: Option<T>,
+    other: Option<U>,
+    fn: (a: T, b: U) => R,
+  ): Option<R>;
+} = dual(
+  3,
+  <T, U, R>(self: Option<T>, other: Option<U>, fn: (a: T, b: U) => R) =>
+    self.zipWith(other, fn),
+);
+
+export const filter: {
+  <T>(predicate: (value: T) => boolean): (self: Option<T>) => Option<T>;
+  <T>(self: Option<T>, predicate: (value: T) => boolean): Option<T>;
+} = dual(2, <T>(self: Option<T>, predicate: (value: T) => boolean) =>
+  self.filter(predicate),
+);
+
+export const inspect: {
+  <T>(fn: (value: T) => void): (self: Option<T>) => Option<T>;
+  <T>(self: Option<T>, fn: (value: T) => void): Option<T>;
+} = dual(2, <T>(self: Option<T>, fn: (value: T) => void) => self.inspect(fn));
+
+// Unwrapping
+export const unwrap = <T>(self: Option<T>): T => self.unwrap();
+
+export const unwrapOr: {
+  <U>(defaultValue: U): <T>(self: Option<T>) => T | U;
+  <T, U>(self: Option<T>, defaultValue: U): T | U;
+} = dual(2, <T, U>(self: Option<T>, defaultValue: U) =>
+  self.unwrapOr(defaultValue),
+);
+
+export const unwrapOrElse: {
+  <U>(fn: () => U): <T>(self: Option<T>) => T | U;
+  <T, U>(self: Option<T>, fn: () => U): T | U;
+} = dual(2, <T, U>(self: Option<T>, fn: () => U) => self.unwrapOrElse(fn));
+
+export const unwrapOrDefault: {
+  <T>(provider: () => T): (self: Option<T>) => T;
+  <T>(self: Option<T>, provider: () => T): T;
+} = dual(2, <T>(self: Option<T>, provider: () => T) =>
+  self.unwrapOrDefault(provider),
+);
+
+export const expect: {
+  (message: string): <T>(self: Option<T>) => T;
+  <T>(self: Option<T>, message: string): T;
+} = dual(2, <T>(self: Option<T>, message: string) => self.expect(message));
+
+// Pattern matching
+export const match: {
+  <T, A, B>(handlers: {
+    some: (value: T) => A;
+    none: () => B;
+  }): (self: Option<T>) => A | B;
+  <T, A, B>(
+    self: Option<T>,
+    handlers: { some: (value: T) => A; none: () => B },
+  ): A | B;
+} = dual(
+  2,
+  <T, A, B>(
+    self: Option<T>,
+    handlers: { some: (value: T) => A; none: () => B },
+  ) => self.match(handlers),
+);
+
+// Conversion
+export const toNullable = <T>(self: Option<T>): T | null => self.toNullable();
+
+export const toUndefined = <T>(self: Option<T>): T | undefined =>
+  self.toUndefined();
+
+export const toArray = <T>(self: Option<T>): T[] => self.toArray();
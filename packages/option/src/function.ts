@@ -0,0 +1,112 @@
+/**
+ * Passes a value through functions from left to right,
+ * pipe(a, f, g) is g(f(a))
+ */
+export function pipe<A>(a: A): A;
+export function pipe<A, B>(a: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): D;
+export function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): H;
+export function pipe(
+  a: unknown,
+  ...fns: ((value: unknown) => unknown)[]
+): unknown {
+  return fns.reduce((value, fn) => fn(value), a);
+}
+
+/**
+ * Composes functions from left to right, flow(f, g) is (...args) => g(f(...args))
+ */
+export function flow<A extends unknown[], B>(
+  ab: (...a: A) => B,
+): (...a: A) => B;
+export function flow<A extends unknown[], B, C>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+): (...a: A) => C;
+export function flow<A extends unknown[], B, C, D>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): (...a: A) => D;
+export function flow<A extends unknown[], B, C, D, E>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): (...a: A) => E;
+export function flow<A extends unknown[], B, C, D, E, F>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): (...a: A) => F;
+export function flow<A extends unknown[], B, C, D, E, F, G>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): (...a: A) => G;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...rest: ((value: unknown) => unknown)[]
+): (...args: unknown[]) => unknown {
+  return (...args) => rest.reduce((value, fn) => fn(value), first(...args));
+}
+
+/**
+ * Builds a function callable data-first, fn(self, ...args), and data-last,
+ * fn(...args)(self), telling the two apart by the number of arguments
+ * `arity` counts `self`, the overloads are given by the annotated type
+ */
+export const dual = <Signatures>(
+  arity: number,
+  body: (self: never, ...args: never[]) => unknown,
+): Signatures => {
+  const call = body as (...args: unknown[]) => unknown;
+  return ((...args: unknown[]) =>
+    args.length >= arity
+      ? call(...args)
+      : (self: unknown) => call(self, ...args)) as Signatures;
+};
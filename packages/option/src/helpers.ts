@@ -1,3 +1,4 @@
+import { AsyncOption } from "./async";
 import { Option } from "./index";
 
 /**
@@ -13,15 +14,15 @@ export const wrapSync = <T>(fn: () => T): Option<T> => {
 };
 
 /**
- * Wraps an async function that might throw into a Promise<Option<T>>
+ * Wraps a promise that might reject into an awaitable AsyncOption<T>
  */
-export const wrapAsync = async <T>(promise: Promise<T>): Promise<Option<T>> => {
-  try {
-    const value = await promise;
-    return Option.some(value);
-  } catch {
-    return Option.none;
-  }
+export const wrapAsync = <T>(promise: Promise<T>): AsyncOption<T> => {
+  return AsyncOption.from(
+    promise.then(
+      (value) => Option.some(value),
+      () => Option.none,
+    ),
+  );
 };
 
 /**
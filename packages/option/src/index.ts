@@ -1,32 +1,54 @@
-// Single Option class with discriminated union
-class Option<T> {
+import { deepEqual, naturalOrder, toHashKey } from "./equality";
+import { NoneUnwrapError } from "./errors";
+
+// Single runtime class behind the Some and None variants
+class OptionImpl<T> {
   private constructor(
     private readonly _isSome: boolean,
     private readonly _value?: T,
   ) {}
 
-  // Static factory methods
-  static some<T>(value: T): Option<T> {
-    return new Option<T>(true, value);
+  // Static factory methods, instances are frozen
+  static some<T>(value: T): Some<T> {
+    return Object.freeze(new OptionImpl<T>(true, value)) as Some<T>;
   }
 
-  static get none(): Option<never> {
-    return new Option<never>(false, undefined);
+  // Shared by every None, so hot paths never allocate one
+  static readonly none: None = Object.freeze(
+    new OptionImpl<never>(false, undefined),
+  ) as None;
+
+  // Discriminant, narrows Option<T> in switch statements
+  get kind(): "Some" | "None" {
+    return this._isSome ? "Some" : "None";
   }
 
   // Type guards
-  isSome(): this is Option<T> {
+  isSome(): this is Some<T> {
     return this._isSome;
   }
 
-  isNone(): this is Option<never> {
+  isNone(): this is None<T> {
     return !this._isSome;
   }
 
+  isSomeAnd(predicate: (value: T) => boolean): boolean {
+    return this._isSome && predicate(this._value!);
+  }
+
+  isNoneOr(predicate: (value: T) => boolean): boolean {
+    return !this._isSome || predicate(this._value!);
+  }
+
+  // Whether this is a Some holding a value strictly equal to the given one
+  contains(value: T): boolean {
+    return this._isSome && this._value === value;
+  }
+
   // Getter for value (type-safe)
   get value(): T {
     if (!this._isSome) {
-      throw new Error("Called value on a None option");
+      throw new NoneUnwrapError("Called value on a None option");
     }
     return this._value!;
   }
@@ -34,9 +56,9 @@ class Option<T> {
   // Core methods
   map<U>(fn: (value: T) => U): Option<U> {
     if (this._isSome) {
-      return Option.some(fn(this._value!));
+      return OptionImpl.some(fn(this._value!));
     }
-    return Option.none;
+    return OptionImpl.none;
   }
 
   mapOr<U>(defaultValue: U, fn: (value: T) => U): U {
@@ -57,42 +79,92 @@ class Option<T> {
     if (this._isSome) {
       return other;
     }
-    return Option.none;
+    return OptionImpl.none;
   }
 
   andThen<U>(fn: (value: T) => Option<U>): Option<U> {
     if (this._isSome) {
       return fn(this._value!);
     }
-    return Option.none;
+    return OptionImpl.none;
+  }
+
+  // Alias of andThen
+  flatMap<U>(fn: (value: T) => Option<U>): Option<U> {
+    return this.andThen(fn);
+  }
+
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return this.andThen((inner) => inner);
   }
 
   or<U>(other: Option<U>): Option<T | U> {
     if (this._isSome) {
-      return this;
+      return this as Option<T>;
     }
     return other;
   }
 
   orElse<U>(fn: () => Option<U>): Option<T | U> {
     if (this._isSome) {
-      return this;
+      return this as Option<T>;
     }
     return fn();
   }
 
+  /**
+   * Returns Some if exactly one of the two Options is Some, None otherwise
+   */
+  xor(other: Option<T>): Option<T> {
+    if (this._isSome && other.isNone()) {
+      return this as Option<T>;
+    }
+    if (!this._isSome && other.isSome()) {
+      return other;
+    }
+    return OptionImpl.none;
+  }
+
+  zip<U>(other: Option<U>): Option<[T, U]> {
+    return this.zipWith(other, (a, b): [T, U] => [a, b]);
+  }
+
+  zipWith<U, R>(other: Option<U>, fn: (a: T, b: U) => R): Option<R> {
+    if (this._isSome && other.isSome()) {
+      return OptionImpl.some(fn(this._value!, other.value));
+    }
+    return OptionImpl.none;
+  }
+
+  // Splits an Option of a pair into a pair of Options
+  unzip<A, B>(this: Option<readonly [A, B]>): [Option<A>, Option<B>] {
+    if (this.isSome()) {
+      const [a, b] = this.value;
+      return [OptionImpl.some(a), OptionImpl.some(b)];
+    }
+    return [OptionImpl.none, OptionImpl.none];
+  }
+
   filter(predicate: (value: T) => boolean): Option<T> {
     if (this._isSome && predicate(this._value!)) {
-      return this;
+      return this as Option<T>;
+    }
+    return OptionImpl.none;
+  }
+
+  // Calls fn with the value of a Some, for side effects such as logging
+  inspect(fn: (value: T) => void): Option<T> {
+    if (this._isSome) {
+      fn(this._value!);
     }
-    return Option.none;
+    return this as Option<T>;
   }
 
   unwrap(): T {
     if (this._isSome) {
       return this._value!;
     }
-    throw new Error("Called unwrap on a None value");
+    throw new NoneUnwrapError("Called unwrap on a None value");
   }
 
   unwrapOr<U>(defaultValue: U): T | U {
@@ -109,11 +181,57 @@ class Option<T> {
     return fn();
   }
 
+  /**
+   * Like unwrapOrElse, but the provider must produce a value of the same type,
+   * standing in for Rust's Default trait
+   */
+  unwrapOrDefault(provider: () => T): T {
+    if (this._isSome) {
+      return this._value!;
+    }
+    return provider();
+  }
+
   expect(message: string): T {
     if (this._isSome) {
       return this._value!;
     }
-    throw new Error(message);
+    throw new NoneUnwrapError(message);
+  }
+
+  // Pattern matching
+  match<A, B>(handlers: { some: (value: T) => A; none: () => B }): A | B {
+    if (this._isSome) {
+      return handlers.some(this._value!);
+    }
+    return handlers.none();
+  }
+
+  // Equality and ordering
+  equals(other: Option<T>, eq: (a: T, b: T) => boolean = deepEqual): boolean {
+    if (this._isSome && other.isSome()) {
+      return eq(this._value!, other.value);
+    }
+    return this._isSome === other.isSome();
+  }
+
+  /**
+   * Orders like Rust's Ord, None before any Some, and Somes by `cmp`
+   * Defaults to the natural ordering of primitives
+   */
+  compare(
+    other: Option<T>,
+    cmp: (a: T, b: T) => number = naturalOrder,
+  ): number {
+    if (this._isSome && other.isSome()) {
+      return cmp(this._value!, other.value);
+    }
+    return Number(this._isSome) - Number(other.isSome());
+  }
+
+  // Stable key, equal for deeply equal Options, for use in Maps and Sets
+  hashKey(): string {
+    return this._isSome ? `Some(${toHashKey(this._value)})` : "None";
   }
 
   // Convert to nullable
@@ -125,14 +243,96 @@ class Option<T> {
     return this._isSome ? this._value! : undefined;
   }
 
+  /**
+   * Iterates over the contained value, yielding once for Some and never for None
+   */
+  *iter(): Generator<T, void, undefined> {
+    if (this._isSome) {
+      yield this._value!;
+    }
+  }
+
+  // One-element array for Some, empty for None, handy with Array#flatMap
+  toArray(): T[] {
+    return this._isSome ? [this._value!] : [];
+  }
+
+  // Stable wire format used by JSON.stringify
+  toJSON(): OptionJSON<T> {
+    return this._isSome
+      ? { $option: "Some", value: this._value! }
+      : { $option: "None" };
+  }
+
   // Static factory from nullable
   static fromNullable<T>(value: T | null | undefined): Option<T> {
-    return value != null ? Option.some(value) : Option.none;
+    return value != null ? OptionImpl.some(value) : OptionImpl.none;
+  }
+
+  /**
+   * Runs a generator in which `yield* option.try()` unwraps a Some or returns
+   * None early, emulating Rust's `?` operator
+   */
+  static gen<T>(body: () => Generator<undefined, T, unknown>): Option<T> {
+    const iterator = body();
+    const next = iterator.next();
+    if (next.done) {
+      return OptionImpl.some(next.value);
+    }
+    iterator.return(undefined as T);
+    return OptionImpl.none;
+  }
+
+  // Same as iter(), so Options work with spread, for-of and Array.from
+  [Symbol.iterator](): Generator<T, void, undefined> {
+    return this.iter();
+  }
+
+  /**
+   * Used by `yield*` inside Option.gen, named after Rust's try! macro
+   * A None yields to stop the generator
+   */
+  *try(): Generator<undefined, T, unknown> {
+    if (!this._isSome) {
+      yield;
+    }
+    return this._value!;
   }
 }
 
-export const Some = Option.some;
-export const None = Option.none;
+type OptionMethods<T> = Omit<OptionImpl<T>, "kind" | "value">;
+
+// Variant holding a value, `value` is only available on this variant
+export interface Some<T> extends OptionMethods<T> {
+  readonly kind: "Some";
+  readonly value: T;
+}
+
+/**
+ * Variant without a value
+ * The type parameter only keeps inference precise, `None` alone is None<never>
+ */
+export interface None<T = never> extends OptionMethods<T> {
+  readonly kind: "None";
+}
+
+/**
+ * Discriminated union of Some and None, narrowed by isSome/isNone or by
+ * switching on `kind`
+ */
+export type Option<T> = Some<T> | None<T>;
+
+// JSON representation produced by Option.toJSON
+export type OptionJSON<T> = { $option: "Some"; value: T } | { $option: "None" };
+
+// A value or a promise of it, accepted by the async APIs
+export type MaybePromise<T> = T | PromiseLike<T>;
+
+export { deepEqual, naturalOrder, toHashKey } from "./equality";
+export { NoneUnwrapError } from "./errors";
+
+// The Option class, with the static constructors and for instanceof checks
+export const Option = OptionImpl;
 
-// Export the Option class
-export { Option };
+export const Some = OptionImpl.some;
+export const None = OptionImpl.none;
@@ -0,0 +1,59 @@
+import type { ExpectStatic } from "vitest";
+import { Option } from "./index";
+
+// vitest does not re-export MatcherState, derive it from expect.extend
+type MatcherState = ThisParameterType<
+  Parameters<ExpectStatic["extend"]>[0][string]
+>;
+
+interface OptionMatchers<R = unknown> {
+  toBeSome(expected?: unknown): R;
+  toBeNone(): R;
+}
+
+declare module "vitest" {
+  interface Matchers<T = any> extends OptionMatchers<T> {}
+}
+
+const show = (state: MatcherState, value: unknown): string =>
+  value instanceof Option
+    ? value.match({
+        some: (inner) => `Some(${state.utils.stringify(inner)})`,
+        none: () => "None",
+      })
+    : state.utils.stringify(value);
+
+/**
+ * Vitest matchers for Options, register them with expect.extend(optionMatchers)
+ *
+ * expect(opt).toBeSome();
+ * expect(opt).toBeSome({ id: 1 }); // compared with deep equality
+ * expect(opt).toBeNone();
+ */
+export const optionMatchers = {
+  toBeSome(this: MatcherState, received: unknown, ...expected: [unknown?]) {
+    const isSome = received instanceof Option && received.isSome();
+    const pass =
+      isSome &&
+      (expected.length === 0 || this.equals(received.value, expected[0]));
+    const target =
+      expected.length === 0
+        ? "Some"
+        : `Some(${this.utils.stringify(expected[0])})`;
+    return {
+      pass,
+      message: () =>
+        `expected ${show(this, received)} ${this.isNot ? "not " : ""}to be ${target}`,
+      actual: isSome ? received.value : received,
+      expected: expected[0],
+    };
+  },
+
+  toBeNone(this: MatcherState, received: unknown) {
+    return {
+      pass: received instanceof Option && received.isNone(),
+      message: () =>
+        `expected ${show(this, received)} ${this.isNot ? "not " : ""}to be None`,
+    };
+  },
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { AsyncOption } from "../src/async";
+import { wrapAsync } from "../src/helpers";
+import { None, Option, Some } from "../src/index";
+
+const cache = new Map([["answer", 42]]);
+const lookup = async (key: string) => Option.fromNullable(cache.get(key));
+
+describe("AsyncOption", () => {
+  describe("creation", () => {
+    it("awaits to an Option", async () => {
+      const opt = await AsyncOption.some(42);
+      expect(opt).toBeInstanceOf(Option);
+      expect(opt.unwrap()).toBe(42);
+    });
+
+    it("wraps an Option or a promise of one", async () => {
+      expect(await AsyncOption.from(Some(1)).unwrap()).toBe(1);
+      expect(await AsyncOption.from(Promise.resolve(None)).isNone()).toBe(true);
+    });
+
+    it("is returned by wrapAsync", async () => {
+      const opt = wrapAsync(Promise.resolve(42));
+      expect(opt).toBeInstanceOf(AsyncOption);
+      expect(await opt.map((x) => x + 1).unwrap()).toBe(43);
+    });
+  });
+
+  describe("map operations", () => {
+    it("maps Some with sync and async callbacks", async () => {
+      const mapped = AsyncOption.some(2)
+        .map((x) => x * 2)
+        .map(async (x) => x + 1);
+      expect(await mapped.unwrap()).toBe(5);
+    });
+
+    it("does not call map for None", async () => {
+      let called = false;
+      const mapped = AsyncOption.none.map(() => {
+        called = true;
+        return 0;
+      });
+      expect(await mapped.isNone()).toBe(true);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("chaining operations", () => {
+    it("andThen with async lookups", async () => {
+      const found = AsyncOption.some("answer").andThen(lookup);
+      expect(await found.unwrap()).toBe(42);
+
+      const missing = AsyncOption.some("question").andThen(lookup);
+      expect(await missing.isNone()).toBe(true);
+    });
+
+    it("andThen with AsyncOption callback", async () => {
+      const chained = AsyncOption.some(1).andThen((x) =>
+        AsyncOption.some(x + 1),
+      );
+      expect(await chained.unwrap()).toBe(2);
+    });
+
+    it("and with Some and None", async () => {
+      expect(await AsyncOption.some(1).and(Some("two")).unwrap()).toBe("two");
+      expect(await AsyncOption.none.and(Some("two")).isNone()).toBe(true);
+    });
+
+    it("or with Some and None", async () => {
+      expect(await AsyncOption.some(1).or(Some(2)).unwrap()).toBe(1);
+      expect(await AsyncOption.none.or(Some(2)).unwrap()).toBe(2);
+    });
+
+    it("orElse falls back to async lookup", async () => {
+      const opt = AsyncOption.none.orElse(() => lookup("answer"));
+      expect(await opt.unwrap()).toBe(42);
+    });
+  });
+
+  describe("filter", () => {
+    it("filters with async predicate", async () => {
+      const kept = AsyncOption.some(42).filter(async (x) => x > 10);
+      const dropped = AsyncOption.some(5).filter(async (x) => x > 10);
+      expect(await kept.unwrap()).toBe(42);
+      expect(await dropped.isNone()).toBe(true);
+    });
+
+    it("does not call predicate for None", async () => {
+      let called = false;
+      const filtered = AsyncOption.none.filter(() => {
+        called = true;
+        return true;
+      });
+      expect(await filtered.isNone()).toBe(true);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("unwrapping", () => {
+    it("unwrapOr and unwrapOrElse with None", async () => {
+      expect(await AsyncOption.none.unwrapOr(0)).toBe(0);
+      expect(await AsyncOption.none.unwrapOrElse(async () => 1)).toBe(1);
+    });
+
+    it("rejects when unwrapping None", async () => {
+      await expect(AsyncOption.none.unwrap()).rejects.toThrow(
+        "Called unwrap on a None value",
+      );
+      await expect(AsyncOption.none.expect("missing")).rejects.toThrow(
+        "missing",
+      );
+    });
+
+    it("matches both branches", async () => {
+      const handlers = {
+        some: (value: number) => `some ${value}`,
+        none: async () => "none",
+      };
+      expect(await AsyncOption.some(1).match(handlers)).toBe("some 1");
+      expect(await AsyncOption.none.match(handlers)).toBe("none");
+    });
+  });
+
+  describe("gen", () => {
+    it("unwraps Options and AsyncOptions with yield*", async () => {
+      const opt = AsyncOption.gen(async function* () {
+        const key = yield* Some("answer").try();
+        const value = yield* AsyncOption.from(lookup(key)).try();
+        return value * 2;
+      });
+      expect(await opt.unwrap()).toBe(84);
+    });
+
+    it("short-circuits on the first None", async () => {
+      let reached = false;
+      const opt = AsyncOption.gen(async function* () {
+        const value = yield* AsyncOption.from(lookup("question")).try();
+        reached = true;
+        return value;
+      });
+      expect(await opt.isNone()).toBe(true);
+      expect(reached).toBe(false);
+    });
+  });
+
+  it("iterates over zero or one values with for await", async () => {
+    const collected: number[] = [];
+    for await (const value of AsyncOption.some(1)) {
+      collected.push(value);
+    }
+    for await (const value of AsyncOption.none) {
+      collected.push(value);
+    }
+    expect(collected).toEqual([1]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { OptionCell } from "../src/cell";
+import { None, Some } from "../src/index";
+
+describe("OptionCell", () => {
+  it("starts empty by default", () => {
+    expect(new OptionCell<number>().get().isNone()).toBe(true);
+    expect(new OptionCell(Some(1)).get().unwrap()).toBe(1);
+  });
+
+  it("take leaves None behind", () => {
+    const cell = new OptionCell(Some(1));
+    expect(cell.take().unwrap()).toBe(1);
+    expect(cell.get().isNone()).toBe(true);
+    expect(cell.take().isNone()).toBe(true);
+  });
+
+  it("takeIf only takes matching values", () => {
+    const cell = new OptionCell(Some(1));
+    expect(cell.takeIf((x) => x > 1).isNone()).toBe(true);
+    expect(cell.get().unwrap()).toBe(1);
+    expect(cell.takeIf((x) => x === 1).unwrap()).toBe(1);
+    expect(cell.get().isNone()).toBe(true);
+  });
+
+  it("replace returns the previous Option", () => {
+    const cell = new OptionCell<number>();
+    expect(cell.replace(1).isNone()).toBe(true);
+    expect(cell.replace(2).unwrap()).toBe(1);
+    expect(cell.get().unwrap()).toBe(2);
+  });
+
+  it("insert overwrites and returns the value", () => {
+    const cell = new OptionCell(Some(1));
+    expect(cell.insert(2)).toBe(2);
+    expect(cell.get().unwrap()).toBe(2);
+  });
+
+  it("getOrInsert keeps an existing value", () => {
+    const cell = new OptionCell(Some(1));
+    expect(cell.getOrInsert(2)).toBe(1);
+    cell.set(None);
+    expect(cell.getOrInsert(3)).toBe(3);
+    expect(cell.get().unwrap()).toBe(3);
+  });
+
+  it("getOrInsertWith calls fn only when empty", () => {
+    let calls = 0;
+    const cell = new OptionCell<number[]>();
+    const make = () => {
+      calls++;
+      return [];
+    };
+    cell.getOrInsertWith(make).push(1);
+    cell.getOrInsertWith(make).push(2);
+    expect(cell.get().unwrap()).toEqual([1, 2]);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { deepEqual, toHashKey } from "../src/equality";
+import { None, Some } from "../src/index";
+
+describe("deepEqual", () => {
+  it("compares primitives with Object.is", () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual(Number.NaN, Number.NaN)).toBe(true);
+    expect(deepEqual(1, "1")).toBe(false);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  it("compares objects and arrays structurally", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(deepEqual([], {})).toBe(false);
+  });
+
+  it("compares Dates, Maps and Sets by content", () => {
+    expect(deepEqual(new Date(1), new Date(1))).toBe(true);
+    expect(deepEqual(new Map([[1, { a: 1 }]]), new Map([[1, { a: 1 }]]))).toBe(
+      true,
+    );
+    expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(deepEqual(new Set([1]), new Set([2]))).toBe(false);
+  });
+
+  it("compares Set members and Map keys deeply, like toHashKey", () => {
+    const a = new Set([Some(1), { x: 1 }]);
+    const b = new Set([{ x: 1 }, Some(1)]);
+    expect(deepEqual(a, b)).toBe(true);
+    expect(toHashKey(a)).toBe(toHashKey(b));
+    expect(
+      deepEqual(new Set([{ x: 1 }, { x: 1 }]), new Set([{ x: 1 }, { x: 2 }])),
+    ).toBe(false);
+    expect(deepEqual(new Map([[[1], "a"]]), new Map([[[1], "a"]]))).toBe(true);
+    expect(deepEqual(new Map([[[1], "a"]]), new Map([[[1], "b"]]))).toBe(false);
+  });
+
+  it("compares Errors by name, message and fields", () => {
+    expect(deepEqual(new Error("a"), new Error("a"))).toBe(true);
+    expect(deepEqual(new Error("a"), new Error("b"))).toBe(false);
+    expect(deepEqual(new Error("a"), new TypeError("a"))).toBe(false);
+  });
+
+  it("compares nested Options", () => {
+    expect(deepEqual(Some([None]), Some([None]))).toBe(true);
+    expect(deepEqual(Some(1), None)).toBe(false);
+  });
+});
+
+describe("toHashKey", () => {
+  it("distinguishes primitive types", () => {
+    const keys = [1, "1", 1n, true, "true", null, undefined].map(toHashKey);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("ignores key and Set order", () => {
+    expect(toHashKey({ a: 1, b: 2 })).toBe(toHashKey({ b: 2, a: 1 }));
+    expect(toHashKey(new Set([1, 2]))).toBe(toHashKey(new Set([2, 1])));
+  });
+
+  it("includes the name and message of Errors", () => {
+    expect(toHashKey(new Error("a"))).not.toBe(toHashKey(new Error("b")));
+  });
+
+  it("tells -0 from 0 like deepEqual", () => {
+    expect(deepEqual(0, -0)).toBe(false);
+    expect(toHashKey(0)).not.toBe(toHashKey(-0));
+    expect(toHashKey(Some(0))).not.toBe(toHashKey(Some(-0)));
+    expect(toHashKey(Number.NaN)).toBe(toHashKey(Number.NaN));
+  });
+
+  it("tells class instances from plain objects like deepEqual", () => {
+    class Point {
+      constructor(readonly x: number) {}
+    }
+    expect(deepEqual(new Point(1), { x: 1 })).toBe(false);
+    expect(toHashKey(new Point(1))).not.toBe(toHashKey({ x: 1 }));
+    expect(toHashKey(Object.assign(Object.create(null), { x: 1 }))).not.toBe(
+      toHashKey({ x: 1 }),
+    );
+    expect(toHashKey(new Point(1))).toBe(toHashKey(new Point(1)));
+  });
+
+  it("uses the hashKey of nested Options", () => {
+    expect(toHashKey([Some(1), None])).toBe("[Some(1),None]");
+  });
+});
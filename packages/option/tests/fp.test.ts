@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import * as O from "../src/fp";
+import { flow, pipe } from "../src/function";
+import { None, Option, Some } from "../src/index";
+
+describe("Option functions", () => {
+  it("mirror the Option methods of the same name", () => {
+    for (const name of Object.keys(O)) {
+      expect(typeof Reflect.get(Option.prototype, name)).toBe("function");
+    }
+  });
+
+  it("can be called data-first", () => {
+    expect(O.map(Some(1), (x) => x + 1).unwrap()).toBe(2);
+    expect(O.mapOr(None, 0, (x: number) => x + 1)).toBe(0);
+    expect(O.unwrapOr(None, "default")).toBe("default");
+    expect(O.zipWith(Some(2), Some(3), (a, b) => a * b).unwrap()).toBe(6);
+  });
+
+  it("can be called data-last in a pipe", () => {
+    const result = pipe(
+      Some(4),
+      O.map((x) => x * 2),
+      O.filter((x) => x > 5),
+      O.andThen((x) => (x % 2 === 0 ? Some(x / 2) : None)),
+      O.unwrapOr(0),
+    );
+    expect(result).toBe(4);
+  });
+
+  it("composes with flow", () => {
+    const parse = flow(
+      (input: string | null) => Option.fromNullable(input),
+      O.map((input) => Number.parseInt(input, 10)),
+      O.filter((value) => !Number.isNaN(value)),
+      O.match({ some: (value) => `number ${value}`, none: () => "invalid" }),
+    );
+    expect(parse("42")).toBe("number 42");
+    expect(parse("x")).toBe("invalid");
+    expect(parse(null)).toBe("invalid");
+  });
+
+  it("combine Options", () => {
+    expect(pipe(Some(1), O.zip(Some("a"))).unwrap()).toEqual([1, "a"]);
+    expect(pipe(None, O.or(Some(2))).unwrap()).toBe(2);
+    expect(pipe(Some(1), O.and(Some(2))).unwrap()).toBe(2);
+    expect(pipe(Some(1), O.xor(Some(2))).isNone()).toBe(true);
+    expect(
+      pipe(
+        None,
+        O.orElse(() => Some(3)),
+      ).unwrap(),
+    ).toBe(3);
+  });
+
+  it("narrow with the type guards", () => {
+    const values = [Some(1), None, Some(2)]
+      .filter(O.isSome)
+      .map((o) => o.value);
+    expect(values).toEqual([1, 2]);
+    expect(O.isNone(None)).toBe(true);
+  });
+
+  it("query and convert Options", () => {
+    expect(
+      pipe(
+        Some(2),
+        O.isSomeAnd((x) => x > 1),
+      ),
+    ).toBe(true);
+    expect(
+      pipe(
+        None,
+        O.isNoneOr((x: number) => x > 1),
+      ),
+    ).toBe(true);
+    expect(pipe(Some(2), O.contains(2))).toBe(true);
+    expect(O.toNullable(None)).toBeNull();
+    expect(O.toUndefined(Some(1))).toBe(1);
+    expect(O.toArray(Some(1))).toEqual([1]);
+    expect(O.flatten(Some(Some(1))).unwrap()).toBe(1);
+    expect(() => pipe(None, O.expect("missing"))).toThrow("missing");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { dual, flow, pipe } from "../src/function";
+
+describe("pipe", () => {
+  it("returns the value without functions", () => {
+    expect(pipe(1)).toBe(1);
+  });
+
+  it("applies functions from left to right", () => {
+    expect(
+      pipe(
+        2,
+        (x) => x + 1,
+        (x) => x * 10,
+        (x) => `${x}`,
+      ),
+    ).toBe("30");
+  });
+});
+
+describe("flow", () => {
+  it("composes functions from left to right", () => {
+    const format = flow(
+      (a: number, b: number) => a + b,
+      (sum) => sum * 2,
+      (doubled) => `=${doubled}`,
+    );
+    expect(format(1, 2)).toBe("=6");
+  });
+});
+
+describe("dual", () => {
+  const add: {
+    (amount: number): (self: number) => number;
+    (self: number, amount: number): number;
+  } = dual(2, (self: number, amount: number) => self + amount);
+
+  it("calls the body data-first with every argument", () => {
+    expect(add(1, 2)).toBe(3);
+  });
+
+  it("returns a function of self data-last", () => {
+    expect(add(2)(1)).toBe(3);
+    expect(pipe(1, add(2), add(3))).toBe(6);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { collect, findSome, transpose, wrapAsync, wrapSync } from "../src/helpers";
+import {
+  collect,
+  findSome,
+  transpose,
+  wrapAsync,
+  wrapSync,
+} from "../src/helpers";
 import { None, type Option, Some } from "../src/index";
 
 describe("Option helpers", () => {
@@ -8,7 +14,7 @@ describe("Option helpers", () => {
       const options = [Some(1), Some(2), Some(3)];
       const result = collect(options);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toEqual([1, 2, 3]);
+      expect(result.unwrap()).toEqual([1, 2, 3]);
     });
 
     it("returns None if any option is None", () => {
@@ -21,7 +27,7 @@ describe("Option helpers", () => {
       const options: Option<number>[] = [];
       const result = collect(options);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toEqual([]);
+      expect(result.unwrap()).toEqual([]);
     });
   });
 
@@ -44,7 +50,7 @@ describe("Option helpers", () => {
       const options = [None, Some(42), Some(84)];
       const result = findSome(options);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("returns None if no Some found", () => {
@@ -58,7 +64,7 @@ describe("Option helpers", () => {
     it("wraps successful function call", () => {
       const result = wrapSync(() => 42);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("wraps throwing function call", () => {
@@ -73,7 +79,7 @@ describe("Option helpers", () => {
     it("wraps successful promise", async () => {
       const result = await wrapAsync(Promise.resolve(42));
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("wraps rejecting promise", async () => {
@@ -0,0 +1,39 @@
+import { bench, describe } from "vitest";
+import { None, Option, Some } from "@/index";
+
+// 1,000 inputs per run, the overhead budget is checked by scripts/check-bench.mjs
+const inputs = Array.from({ length: 1_000 }, (_, index) =>
+  index % 4 === 0 ? undefined : index,
+);
+const options = inputs.map((input) => Option.fromNullable(input));
+
+// Keeps the engine from optimizing the loops away
+const sink = { value: 0 };
+
+const halve = (value: number): number | undefined =>
+  value % 2 === 0 ? value / 2 : undefined;
+const halveOption = (value: number): Option<number> =>
+  value % 2 === 0 ? Some(value / 2) : None;
+
+describe("map/andThen chain", () => {
+  bench("T | undefined", () => {
+    let sum = 0;
+    for (const input of inputs) {
+      const doubled = input === undefined ? undefined : input * 2;
+      const halved = doubled === undefined ? undefined : halve(doubled);
+      sum += halved ?? 0;
+    }
+    sink.value = sum;
+  });
+
+  bench("Option", () => {
+    let sum = 0;
+    for (const option of options) {
+      sum += option
+        .map((value) => value * 2)
+        .andThen(halveOption)
+        .unwrapOr(0);
+    }
+    sink.value = sum;
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { None, Option, Some } from "../src/index";
+import { None, NoneUnwrapError, Option, Some } from "../src/index";
 
 describe("Option", () => {
   describe("creation", () => {
@@ -16,10 +16,28 @@ describe("Option", () => {
       expect(opt.isNone()).toBe(true);
     });
 
+    it("shares a single frozen None", () => {
+      expect(Option.none).toBe(None);
+      expect(
+        Some(1)
+          .map(() => 2)
+          .filter(() => false),
+      ).toBe(None);
+      expect(Object.isFrozen(None)).toBe(true);
+    });
+
+    it("freezes Some values", () => {
+      const opt = Some(42);
+      expect(Object.isFrozen(opt)).toBe(true);
+      expect(() => {
+        (opt as unknown as { _value: number })._value = 0;
+      }).toThrow(TypeError);
+    });
+
     it("creates from nullable - with value", () => {
       const opt = Option.fromNullable(42);
       expect(opt.isSome()).toBe(true);
-      expect(opt.value).toBe(42);
+      expect(opt.unwrap()).toBe(42);
     });
 
     it("creates from nullable - with null", () => {
@@ -33,12 +51,56 @@ describe("Option", () => {
     });
   });
 
+  describe("narrowing", () => {
+    const describeOption = (opt: Option<number>): string => {
+      switch (opt.kind) {
+        case "Some":
+          return `Some(${opt.value})`;
+        case "None":
+          return "None";
+        default: {
+          const exhaustive: never = opt;
+          return exhaustive;
+        }
+      }
+    };
+
+    it("narrows on kind in switch statements", () => {
+      expect(describeOption(Some(1))).toBe("Some(1)");
+      expect(describeOption(None)).toBe("None");
+    });
+
+    it("narrows with isSome and isNone", () => {
+      const opt: Option<number> = Option.fromNullable(42 as number | null);
+      if (opt.isSome()) {
+        expect(opt.value).toBe(42);
+      }
+      if (!opt.isNone()) {
+        expect(opt.value).toBe(42);
+      }
+      expect.assertions(2);
+    });
+
+    it("only exposes value on Some", () => {
+      const read = (opt: Option<number>) =>
+        // @ts-expect-error value does not exist until the Option is narrowed
+        opt.value;
+      expect(read(Some(1))).toBe(1);
+      expect(Some(1).value).toBe(1);
+    });
+
+    it("infers the value type from None", () => {
+      const opt = Option.fromNullable(1).or(None);
+      expect(opt.unwrapOr(0)).toBe(1);
+    });
+  });
+
   describe("map operations", () => {
     it("maps Some value", () => {
       const opt = Some(42);
       const mapped = opt.map((x) => x * 2);
       expect(mapped.isSome()).toBe(true);
-      expect(mapped.value).toBe(84);
+      expect(mapped.unwrap()).toBe(84);
     });
 
     it("maps None value", () => {
@@ -84,7 +146,7 @@ describe("Option", () => {
       const opt2 = Some("hello");
       const result = opt1.and(opt2);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe("hello");
+      expect(result.unwrap()).toBe("hello");
     });
 
     it("and with Some and None", () => {
@@ -105,7 +167,7 @@ describe("Option", () => {
       const opt = Some(42);
       const result = opt.andThen((x) => Some(x.toString()));
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe("42");
+      expect(result.unwrap()).toBe("42");
     });
 
     it("andThen with None", () => {
@@ -119,7 +181,7 @@ describe("Option", () => {
       const opt2 = None;
       const result = opt1.or(opt2);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("or with None and Some", () => {
@@ -127,21 +189,21 @@ describe("Option", () => {
       const opt2 = Some(42);
       const result = opt1.or(opt2);
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("orElse with Some", () => {
       const opt = Some(42);
       const result = opt.orElse(() => Some(0));
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(42);
+      expect(result.unwrap()).toBe(42);
     });
 
     it("orElse with None", () => {
       const opt = None;
       const result = opt.orElse(() => Some(0));
       expect(result.isSome()).toBe(true);
-      expect(result.value).toBe(0);
+      expect(result.unwrap()).toBe(0);
     });
   });
 
@@ -150,7 +212,7 @@ describe("Option", () => {
       const opt = Some(42);
       const filtered = opt.filter((x) => x > 10);
       expect(filtered.isSome()).toBe(true);
-      expect(filtered.value).toBe(42);
+      expect(filtered.unwrap()).toBe(42);
     });
 
     it("filters Some value that does not match predicate", () => {
@@ -208,6 +270,43 @@ describe("Option", () => {
         "should have value",
       );
     });
+
+    it("throws NoneUnwrapError from unwrap, expect and value", () => {
+      const opt: Option<number> = None;
+      expect(() => opt.unwrap()).toThrow(NoneUnwrapError);
+      expect(() => opt.expect("missing")).toThrow(NoneUnwrapError);
+      // The type hides value on None, the getter still guards untyped access
+      expect(() => (opt as unknown as Some<number>).value).toThrow(
+        NoneUnwrapError,
+      );
+      try {
+        opt.unwrap();
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).name).toBe("NoneUnwrapError");
+        expect((error as Error).stack).toContain("NoneUnwrapError");
+      }
+    });
+  });
+
+  describe("match", () => {
+    it("matches Some value", () => {
+      const opt: Option<number> = Some(42);
+      const result = opt.match({
+        some: (x) => `some ${x}`,
+        none: () => "none",
+      });
+      expect(result).toBe("some 42");
+    });
+
+    it("matches None value", () => {
+      const opt: Option<number> = None;
+      const result = opt.match({
+        some: (x) => x * 2,
+        none: () => 0,
+      });
+      expect(result).toBe(0);
+    });
   });
 
   describe("conversion", () => {
@@ -230,5 +329,195 @@ describe("Option", () => {
       const opt = None;
       expect(opt.toUndefined()).toBe(undefined);
     });
+
+    it("serializes to JSON", () => {
+      expect(JSON.stringify(Some(42))).toBe('{"$option":"Some","value":42}');
+      expect(JSON.stringify(None)).toBe('{"$option":"None"}');
+      expect(Some([1]).toJSON()).toEqual({ $option: "Some", value: [1] });
+    });
+  });
+
+  describe("predicates", () => {
+    it("isSomeAnd checks the value of a Some", () => {
+      expect(Some(2).isSomeAnd((x) => x > 1)).toBe(true);
+      expect(Some(0).isSomeAnd((x) => x > 1)).toBe(false);
+      expect(None.isSomeAnd(() => true)).toBe(false);
+    });
+
+    it("isNoneOr is true for None or a matching Some", () => {
+      expect(None.isNoneOr(() => false)).toBe(true);
+      expect(Some(2).isNoneOr((x) => x > 1)).toBe(true);
+      expect(Some(0).isNoneOr((x) => x > 1)).toBe(false);
+    });
+
+    it("contains compares with strict equality", () => {
+      expect(Some(1).contains(1)).toBe(true);
+      expect(Some(1).contains(2)).toBe(false);
+      expect((None as Option<number>).contains(1)).toBe(false);
+      expect(Some({ a: 1 }).contains({ a: 1 })).toBe(false);
+    });
+  });
+
+  describe("xor and zip", () => {
+    it("xor keeps exactly one Some", () => {
+      expect(Some(1).xor(None).unwrap()).toBe(1);
+      expect((None as Option<number>).xor(Some(2)).unwrap()).toBe(2);
+      expect(Some(1).xor(Some(2)).isNone()).toBe(true);
+      expect(None.xor(None).isNone()).toBe(true);
+    });
+
+    it("zip pairs two Somes", () => {
+      const zipped: Option<[number, string]> = Some(1).zip(Some("a"));
+      expect(zipped.unwrap()).toEqual([1, "a"]);
+      expect(Some(1).zip(None).isNone()).toBe(true);
+    });
+
+    it("zipWith combines two Somes", () => {
+      expect(
+        Some(2)
+          .zipWith(Some(3), (a, b) => a * b)
+          .unwrap(),
+      ).toBe(6);
+      expect(None.zipWith(Some(3), () => 0).isNone()).toBe(true);
+    });
+
+    it("unzip splits a pair", () => {
+      const [a, b] = Some([1, "a"] as const).unzip();
+      expect(a.unwrap()).toBe(1);
+      expect(b.unwrap()).toBe("a");
+      const [c, d] = (None as Option<[number, string]>).unzip();
+      expect(c.isNone() && d.isNone()).toBe(true);
+    });
+  });
+
+  describe("inspect", () => {
+    it("calls fn for Some only and returns the same Option", () => {
+      const seen: number[] = [];
+      const opt = Some(1);
+      expect(opt.inspect((x) => seen.push(x))).toBe(opt);
+      None.inspect(() => seen.push(0));
+      expect(seen).toEqual([1]);
+    });
+  });
+
+  describe("unwrapOrDefault", () => {
+    it("uses the provider for None", () => {
+      expect(Some([1]).unwrapOrDefault(() => [])).toEqual([1]);
+      expect((None as Option<number[]>).unwrapOrDefault(() => [])).toEqual([]);
+    });
+  });
+
+  describe("equality and ordering", () => {
+    it("equals compares values deeply by default", () => {
+      expect(Some({ a: [1, 2] }).equals(Some({ a: [1, 2] }))).toBe(true);
+      expect(Some({ a: [1, 2] }).equals(Some({ a: [1, 3] }))).toBe(false);
+      expect(Some(Some(new Date(0))).equals(Some(Some(new Date(0))))).toBe(
+        true,
+      );
+      expect((None as Option<number>).equals(None)).toBe(true);
+      expect(Some(1).equals(None)).toBe(false);
+    });
+
+    it("equals accepts a custom equality", () => {
+      const sameLength = (a: string, b: string) => a.length === b.length;
+      expect(Some("ab").equals(Some("cd"), sameLength)).toBe(true);
+      expect(Some("ab").equals(Some("c"), sameLength)).toBe(false);
+    });
+
+    it("compare orders None before Some", () => {
+      const options: Option<number>[] = [Some(3), None, Some(1)];
+      options.sort((a, b) => a.compare(b));
+      expect(options.map((opt) => opt.toNullable())).toEqual([null, 1, 3]);
+      expect(None.compare(None)).toBe(0);
+    });
+
+    it("compare accepts a custom comparator", () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+      expect(Some("abc").compare(Some("z"), byLength)).toBeGreaterThan(0);
+    });
+
+    it("hashKey is equal for deeply equal Options", () => {
+      expect(Some({ b: 1, a: [2] }).hashKey()).toBe(
+        Some({ a: [2], b: 1 }).hashKey(),
+      );
+      expect(Some("1").hashKey()).not.toBe(Some(1).hashKey());
+      expect(None.hashKey()).toBe("None");
+
+      const seen = new Map([[Some([1]).hashKey(), "one"]]);
+      expect(seen.get(Some([1]).hashKey())).toBe("one");
+    });
+  });
+
+  describe("iteration", () => {
+    it("iterates over zero or one values", () => {
+      expect([...Some(1).iter()]).toEqual([1]);
+      expect([...None.iter()]).toEqual([]);
+      expect(Array.from(Some("a").iter())).toEqual(["a"]);
+      const collected: number[] = [];
+      for (const value of Some(2).iter()) {
+        collected.push(value);
+      }
+      expect(collected).toEqual([2]);
+    });
+
+    it("spreads like iter", () => {
+      expect([...Some(1)]).toEqual([1]);
+      expect([...None]).toEqual([]);
+      expect(Array.from(Some(undefined))).toEqual([undefined]);
+      expect([Some(1), None, Some(3)].flatMap((opt) => [...opt])).toEqual([
+        1, 3,
+      ]);
+    });
+
+    it("drops None values with Array#flatMap and toArray", () => {
+      const options = [Some(1), None, Some(3)];
+      expect(options.flatMap((opt) => opt.toArray())).toEqual([1, 3]);
+    });
+
+    it("flattens nested Options", () => {
+      expect(Some(Some(1)).flatten().unwrap()).toBe(1);
+      expect(Some(None).flatten().isNone()).toBe(true);
+      expect((None as Option<Option<number>>).flatten().isNone()).toBe(true);
+    });
+
+    it("flatMap is an alias of andThen", () => {
+      const half = (x: number) => (x % 2 === 0 ? Some(x / 2) : None);
+      expect(Some(4).flatMap(half).unwrap()).toBe(2);
+      expect(Some(3).flatMap(half).isNone()).toBe(true);
+    });
+  });
+
+  describe("gen", () => {
+    const parse = (input: string): Option<number> => {
+      const value = Number.parseInt(input, 10);
+      return Number.isNaN(value) ? None : Some(value);
+    };
+
+    it("unwraps Some values with yield*", () => {
+      const opt = Option.gen(function* () {
+        const a = yield* parse("1").try();
+        const b = yield* parse("2").try();
+        return a + b;
+      });
+      expect(opt.unwrap()).toBe(3);
+    });
+
+    it("keeps Options comparable with toEqual", () => {
+      expect(Some(1)).toEqual(Some(1));
+      expect(Some(1)).not.toEqual(Some(2));
+      expect(None).toEqual(None);
+      expect(Some(1)).not.toEqual(None);
+    });
+
+    it("short-circuits on the first None", () => {
+      let reached = false;
+      const opt = Option.gen(function* () {
+        const a = yield* parse("x").try();
+        reached = true;
+        return a;
+      });
+      expect(opt.isNone()).toBe(true);
+      expect(reached).toBe(false);
+    });
   });
 });
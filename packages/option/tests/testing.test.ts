@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { None, Some } from "../src/index";
+import { optionMatchers } from "../src/testing";
+
+expect.extend(optionMatchers);
+
+describe("optionMatchers", () => {
+  it("toBeSome matches any Some or a deeply equal value", () => {
+    expect(Some(1)).toBeSome();
+    expect(Some({ a: [1] })).toBeSome({ a: [1] });
+    expect(Some(1)).not.toBeSome(2);
+    expect(None).not.toBeSome();
+    expect(1).not.toBeSome();
+  });
+
+  it("toBeNone matches None only", () => {
+    expect(None).toBeNone();
+    expect(Some(1)).not.toBeNone();
+    expect(null).not.toBeNone();
+  });
+
+  it("reports readable messages", () => {
+    expect(() => expect(Some(1)).toBeSome(2)).toThrow(
+      "expected Some(1) to be Some(2)",
+    );
+    expect(() => expect(None).not.toBeNone()).toThrow(
+      "expected None not to be None",
+    );
+  });
+
+  it("works as asymmetric matchers", () => {
+    expect({ found: Some(1) }).toEqual({ found: expect.toBeSome(1) });
+  });
+});
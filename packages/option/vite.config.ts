@@ -8,7 +8,12 @@ export default defineConfig({
     lib: {
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
-        helpers: resolve(__dirname, 'src/helpers.ts')
+        helpers: resolve(__dirname, 'src/helpers.ts'),
+        async: resolve(__dirname, 'src/async.ts'),
+        cell: resolve(__dirname, 'src/cell.ts'),
+        testing: resolve(__dirname, 'src/testing.ts'),
+        function: resolve(__dirname, 'src/function.ts'),
+        fp: resolve(__dirname, 'src/fp.ts')
       },
       formats: ['es'],
     },
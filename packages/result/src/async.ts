@@ -0,0 +1,188 @@
+import type { MaybePromise } from "@rustify/option";
+import { tagOf } from "./errors";
+import { type ErrorHandlers, type ErrorTag, Result } from "./index";
+
+/**
+ * Awaitable wrapper around Promise<Result<T, E>>
+ * Mirrors the Result API so async steps can be chained without awaiting each one
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+  private constructor(private readonly _promise: Promise<Result<T, E>>) {}
+
+  // Static factory methods
+  static from<T, E>(result: MaybePromise<Result<T, E>>): AsyncResult<T, E> {
+    return new AsyncResult(Promise.resolve(result));
+  }
+
+  // Async counterpart of Result.fromPromise
+  static fromPromise<T>(promise: PromiseLike<T>): AsyncResult<T, Error>;
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (thrown: unknown) => E,
+  ): AsyncResult<T, E>;
+  static fromPromise<T>(
+    promise: PromiseLike<T>,
+    mapError?: (thrown: unknown) => unknown,
+  ): AsyncResult<T, unknown> {
+    return AsyncResult.from(
+      mapError
+        ? Result.fromPromise(promise, mapError)
+        : Result.fromPromise(promise),
+    );
+  }
+
+  static ok<T>(value: T): AsyncResult<T, never> {
+    return AsyncResult.from(Result.ok(value));
+  }
+
+  static err<E>(error: E): AsyncResult<never, E> {
+    return AsyncResult.from(Result.err(error));
+  }
+
+  /**
+   * Async counterpart of Result.gen, `yield*` accepts the try() of both Results
+   * and AsyncResults
+   */
+  static gen<E, T>(
+    body: () => AsyncGenerator<E, T, unknown>,
+  ): AsyncResult<T, E> {
+    return AsyncResult.from(
+      (async (): Promise<Result<T, E>> => {
+        const iterator = body();
+        const next = await iterator.next();
+        if (next.done) {
+          return Result.ok(next.value);
+        }
+        await iterator.return(undefined as T);
+        return Result.err(next.value);
+      })(),
+    );
+  }
+
+  // PromiseLike implementation
+  // biome-ignore lint/suspicious/noThenProperty: AsyncResult is meant to be awaited
+  then<R1 = Result<T, E>, R2 = never>(
+    onfulfilled?: ((result: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  // Type guards
+  isOk(): Promise<boolean> {
+    return this._promise.then((result) => result.isOk());
+  }
+
+  isErr(): Promise<boolean> {
+    return this._promise.then((result) => result.isErr());
+  }
+
+  // Core methods
+  map<U>(fn: (value: T) => MaybePromise<U>): AsyncResult<U, E> {
+    return this.chain(
+      async (result): Promise<Result<U, E>> =>
+        result.isOk()
+          ? Result.ok(await fn(result.value))
+          : Result.err(result.error),
+    );
+  }
+
+  mapErr<F>(fn: (error: E) => MaybePromise<F>): AsyncResult<T, F> {
+    return this.chain(
+      async (result): Promise<Result<T, F>> =>
+        result.isOk()
+          ? Result.ok(result.value)
+          : Result.err(await fn(result.error)),
+    );
+  }
+
+  and<U>(other: MaybePromise<Result<U, E>>): AsyncResult<U, E> {
+    return this.chain((result) =>
+      result.isOk() ? other : Result.err(result.error),
+    );
+  }
+
+  andThen<U, F>(
+    fn: (value: T) => MaybePromise<Result<U, F>>,
+  ): AsyncResult<U, E | F> {
+    return this.chain(
+      (result): MaybePromise<Result<U, E | F>> =>
+        result.isOk() ? fn(result.value) : Result.err(result.error),
+    );
+  }
+
+  or<U>(other: MaybePromise<Result<U, E>>): AsyncResult<T | U, E> {
+    return this.chain(
+      (result): MaybePromise<Result<T | U, E>> =>
+        result.isOk() ? Result.ok(result.value) : other,
+    );
+  }
+
+  orElse<U, F>(
+    fn: (error: E) => MaybePromise<Result<U, F>>,
+  ): AsyncResult<T | U, F> {
+    return this.chain(
+      (result): MaybePromise<Result<T | U, F>> =>
+        result.isOk() ? Result.ok(result.value) : fn(result.error),
+    );
+  }
+
+  catchTag<K extends ErrorTag<E>, U, F>(
+    tag: K,
+    fn: (
+      error: Extract<E, K | { readonly _tag: K }>,
+    ) => MaybePromise<Result<U, F>>,
+  ): AsyncResult<T | U, Exclude<E, K | { readonly _tag: K }> | F> {
+    return this.chain(
+      (
+        result,
+      ): MaybePromise<
+        Result<T | U, Exclude<E, K | { readonly _tag: K }> | F>
+      > =>
+        result.isErr() && tagOf(result.error) === tag
+          ? fn(result.error as Extract<E, K | { readonly _tag: K }>)
+          : (result as Result<T, Exclude<E, K | { readonly _tag: K }>>),
+    );
+  }
+
+  unwrap(): Promise<T> {
+    return this._promise.then((result) => result.unwrap());
+  }
+
+  unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return this._promise.then((result) => result.unwrapOr(defaultValue));
+  }
+
+  async unwrapOrElse<U>(fn: (error: E) => MaybePromise<U>): Promise<T | U> {
+    const result = await this._promise;
+    return result.isOk() ? result.value : fn(result.error);
+  }
+
+  expect(message: string): Promise<T> {
+    return this._promise.then((result) => result.expect(message));
+  }
+
+  async match<A, B>(handlers: {
+    ok: (value: T) => MaybePromise<A>;
+    err: ((error: E) => MaybePromise<B>) | ErrorHandlers<E, MaybePromise<B>>;
+  }): Promise<A | B> {
+    const result = await this._promise;
+    return result.match(handlers);
+  }
+
+  // Same as Result's iterator, for `for await`
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    yield* (await this._promise).iter();
+  }
+
+  // Used by `yield*` inside AsyncResult.gen
+  async *try(): AsyncGenerator<E, T, unknown> {
+    return yield* (await this._promise).try();
+  }
+
+  private chain<U, F>(
+    fn: (result: Result<T, E>) => MaybePromise<Result<U, F>>,
+  ): AsyncResult<U, F> {
+    return new AsyncResult(this._promise.then(fn));
+  }
+}
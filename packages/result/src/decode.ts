@@ -0,0 +1,181 @@
+import { Option } from "@rustify/option";
+import { defineError } from "./errors";
+import { Result } from "./index";
+
+/**
+ * A single decoding failure, `path` is the dotted path of the offending value
+ */
+export const DecodeError = defineError(
+  "DecodeError",
+  (fields: { path: string; expected: string; received: string }) =>
+    `Expected ${fields.expected}${fields.path === "" ? "" : ` at ${fields.path}`}, received ${fields.received}`,
+);
+export type DecodeError = InstanceType<typeof DecodeError>;
+
+type Run<T> = (input: unknown, path: string) => Result<T, DecodeError[]>;
+
+const describe = (input: unknown): string => {
+  if (input === null) {
+    return "null";
+  }
+  if (Array.isArray(input)) {
+    return "array";
+  }
+  return typeof input;
+};
+
+const joinPath = (prefix: string, key: string): string =>
+  prefix === "" ? key : `${prefix}.${key}`;
+
+const fail = (
+  input: unknown,
+  path: string,
+  expected: string,
+): Result<never, DecodeError[]> =>
+  Result.err([new DecodeError({ path, expected, received: describe(input) })]);
+
+/**
+ * Runtime decoder turning unknown input into a typed value
+ * `expected` describes the accepted input and is used in error messages
+ */
+export class Decoder<T> {
+  constructor(
+    readonly expected: string,
+    private readonly _run: Run<T>,
+  ) {}
+
+  decode(input: unknown): Result<T, DecodeError[]> {
+    return this._run(input, "");
+  }
+
+  // Decodes a value nested at `path`, used by the combinators
+  decodeAt(input: unknown, path: string): Result<T, DecodeError[]> {
+    return this._run(input, path);
+  }
+
+  map<U>(fn: (value: T) => U): Decoder<U> {
+    return new Decoder(this.expected, (input, path) =>
+      this._run(input, path).map(fn),
+    );
+  }
+
+  refine(predicate: (value: T) => boolean, expected: string): Decoder<T> {
+    return new Decoder(expected, (input, path) =>
+      this._run(input, path).andThen((value) =>
+        predicate(value) ? Result.ok(value) : fail(value, path, expected),
+      ),
+    );
+  }
+}
+
+// Extracts the decoded type of a Decoder
+export type TypeOf<D> = D extends Decoder<infer T> ? T : never;
+
+const primitive = <T>(
+  expected: string,
+  test: (input: unknown) => input is T,
+): Decoder<T> =>
+  new Decoder(expected, (input, path) =>
+    test(input) ? Result.ok(input) : fail(input, path, expected),
+  );
+
+export const string = primitive(
+  "string",
+  (input): input is string => typeof input === "string",
+);
+
+export const number = primitive(
+  "number",
+  (input): input is number => typeof input === "number" && !Number.isNaN(input),
+);
+
+export const boolean = primitive(
+  "boolean",
+  (input): input is boolean => typeof input === "boolean",
+);
+
+export const literal = <
+  const L extends readonly (string | number | boolean | null)[],
+>(
+  ...values: L
+): Decoder<L[number]> =>
+  primitive(
+    values.map((value) => JSON.stringify(value)).join(" | "),
+    (input): input is L[number] => values.includes(input as L[number]),
+  );
+
+/**
+ * Decodes arrays, accumulating the errors of every element
+ */
+export const array = <T>(item: Decoder<T>): Decoder<T[]> =>
+  new Decoder(`${item.expected}[]`, (input, path) => {
+    if (!Array.isArray(input)) {
+      return fail(input, path, `${item.expected}[]`);
+    }
+    const values: T[] = [];
+    const errors: DecodeError[] = [];
+    for (const [index, element] of input.entries()) {
+      const result = item.decodeAt(element, joinPath(path, `${index}`));
+      if (result.isOk()) {
+        values.push(result.value);
+      } else {
+        errors.push(...result.error);
+      }
+    }
+    return errors.length > 0 ? Result.err(errors) : Result.ok(values);
+  });
+
+/**
+ * Decodes objects field by field, accumulating the errors of every field
+ * Unknown keys are dropped
+ */
+export const object = <S extends Record<string, Decoder<unknown>>>(
+  shape: S,
+): Decoder<{ [K in keyof S]: TypeOf<S[K]> }> =>
+  new Decoder("object", (input, path) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return fail(input, path, "object");
+    }
+    const record = input as Record<string, unknown>;
+    const values: Record<string, unknown> = {};
+    const errors: DecodeError[] = [];
+    for (const [key, decoder] of Object.entries(shape)) {
+      const result = decoder.decodeAt(record[key], joinPath(path, key));
+      if (result.isOk()) {
+        values[key] = result.value;
+      } else {
+        errors.push(...result.error);
+      }
+    }
+    return errors.length > 0
+      ? Result.err(errors)
+      : Result.ok(values as { [K in keyof S]: TypeOf<S[K]> });
+  });
+
+/**
+ * Tries each decoder in turn and keeps the first success
+ */
+export const union = <D extends Decoder<unknown>[]>(
+  ...decoders: D
+): Decoder<TypeOf<D[number]>> => {
+  const expected = decoders.map((decoder) => decoder.expected).join(" | ");
+  return new Decoder(expected, (input, path) => {
+    for (const decoder of decoders) {
+      const result = decoder.decodeAt(input, path);
+      if (result.isOk()) {
+        return Result.ok(result.value as TypeOf<D[number]>);
+      }
+    }
+    return fail(input, path, expected);
+  });
+};
+
+/**
+ * Decodes missing values (undefined or null) to None and others to Some
+ */
+export const optional = <T>(decoder: Decoder<T>): Decoder<Option<T>> =>
+  new Decoder(`${decoder.expected} | undefined`, (input, path) =>
+    input == null
+      ? Result.ok<Option<T>>(Option.none)
+      : decoder.decodeAt(input, path).map((value) => Option.some(value)),
+  );
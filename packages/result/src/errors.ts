@@ -0,0 +1,110 @@
+const describe = (value: unknown): string => {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  if (typeof value === "object" && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+};
+
+/**
+ * Thrown when unwrapping the wrong variant of a Result
+ * The unexpected payload is kept as `cause`
+ */
+export class UnwrapError<E = unknown> extends Error {
+  override name = "UnwrapError";
+  declare readonly cause: E;
+
+  constructor(message: string, cause: E) {
+    super(`${message}: ${describe(cause)}`, { cause });
+  }
+}
+
+/**
+ * Thrown by Result.expect, carries the caller's message and the original error
+ */
+export class ExpectError<E = unknown> extends UnwrapError<E> {
+  override name = "ExpectError";
+}
+
+// Discriminant used by match and catchTag: the string itself or the `_tag` field
+export const tagOf = (error: unknown): string | undefined =>
+  typeof error === "string"
+    ? error
+    : (error as { _tag?: string } | null | undefined)?._tag;
+
+/**
+ * Base class of errors carrying a literal `_tag` discriminant
+ * Unions of tagged errors can be matched and narrowed by tag
+ */
+export class TaggedError<Tag extends string = string> extends Error {
+  constructor(
+    readonly _tag: Tag,
+    message?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = _tag;
+  }
+}
+
+/**
+ * Wraps a thrown value that is not an Error, keeping it as `cause`
+ */
+export class UnknownError extends TaggedError<"UnknownError"> {
+  declare readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super("UnknownError", `Non-error value thrown: ${describe(cause)}`, {
+      cause,
+    });
+  }
+}
+
+// Default error mapper: Errors are kept, anything else is wrapped in an UnknownError
+export const toError = (thrown: unknown): Error =>
+  thrown instanceof Error ? thrown : new UnknownError(thrown);
+
+type ConstructorArgs<Fields> = Record<never, never> extends Fields
+  ? [fields?: Fields, options?: ErrorOptions]
+  : [fields: Fields, options?: ErrorOptions];
+
+export type TaggedErrorClass<Tag extends string, Fields> = new (
+  ...args: ConstructorArgs<Fields>
+) => TaggedError<Tag> & Readonly<Fields>;
+
+/**
+ * Defines a TaggedError subclass whose instances carry the given fields
+ * The optional message formatter also serves as the schema of the fields
+ *
+ * const NotFound = defineError("NotFound", (f: { path: string }) => `${f.path} not found`);
+ * new NotFound({ path: "/a" }, { cause: ioError });
+ */
+export const defineError = <
+  Tag extends string,
+  Fields extends object = Record<never, never>,
+>(
+  tag: Tag,
+  message?: (fields: Fields) => string,
+): TaggedErrorClass<Tag, Fields> => {
+  return class extends TaggedError<Tag> {
+    constructor(fields?: Fields, options?: ErrorOptions) {
+      super(tag, message?.(fields ?? ({} as Fields)), options);
+      Object.assign(this, fields);
+    }
+  } as unknown as TaggedErrorClass<Tag, Fields>;
+};
+
+/**
+ * Returned by Result.fromJSON and the json helpers for values of the wrong shape
+ */
+export const JsonShapeError = defineError(
+  "JsonShapeError",
+  (fields: { expected: string }) => `Expected ${fields.expected}`,
+);
+export type JsonShapeError = InstanceType<typeof JsonShapeError>;
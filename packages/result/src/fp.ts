@@ -0,0 +1,227 @@
+import type { Option } from "@rustify/option";
+import { dual } from "@rustify/option/function";
+import type { Err, ErrorHandlers, ErrorTag, Ok, Result } from "./index";
+
+// Result counterparts of @rustify/option/fp, see dual for the data-first
+// and data-last forms
+
+type Tagged<E, K> = Extract<E, K | { readonly _tag: K }>;
+type Untagged<E, K> = Exclude<E, K | { readonly _tag: K }>;
+
+// Type guards
+export const isOk = <T, E>(self: Result<T, E>): self is Ok<T, E> => self.isOk();
+
+export const isErr = <T, E>(self: Result<T, E>): self is Err<T, E> =>
+  self.isErr();
+
+export const isOkAnd: {
+  <T, E>(predicate: (value: T) => boolean): (self: Result<T, E>) => boolean;
+  <T, E>(self: Result<T, E>, predicate: (value: T) => boolean): boolean;
+} = dual(2, <T, E>(self: Result<T, E>, predicate: (value: T) => boolean) =>
+  self.isOkAnd(predicate),
+);
+
+export const isErrAnd: {
+  <T, E>(predicate: (error: E) => boolean): (self: Result<T, E>) => boolean;
+  <T, E>(self: Result<T, E>, predicate: (error: E) => boolean): boolean;
+} = dual(2, <T, E>(self: Result<T, E>, predicate: (error: E) => boolean) =>
+  self.isErrAnd(predicate),
+);
+
+// Core methods
+export const map: {
+  <T, E, U>(fn: (value: T) => U): (self: Result<T, E>) => Result<U, E>;
+  <T, E, U>(self: Result<T, E>, fn: (value: T) => U): Result<U, E>;
+} = dual(2, <T, E, U>(self: Result<T, E>, fn: (value: T) => U) => self.map(fn));
+
+export const mapOr: {
+  <T, E, U>(defaultValue: U, fn: (value: T) => U): (self: Result<T, E>) => U;
+  <T, E, U>(self: Result<T, E>, defaultValue: U, fn: (value: T) => U): U;
+} = dual(
+  3,
+  <T, E, U>(self: Result<T, E>, defaultValue: U, fn: (value: T) => U) =>
+    self.mapOr(defaultValue, fn),
+);
+
+export const mapOrElse: {
+  <T, E, U>(
+    defaultFn: (error: E) => U,
+    fn: (value: T) => U,
+  ): (self: Result<T, E>) => U;
+  <T, E, U>(
+    self: Result<T, E>,
+    defaultFn: (error: E) => U,
+    fn: (value: T) => U,
+  ): U;
+} = dual(
+  3,
+  <T, E, U>(
+    self: Result<T, E>,
+    defaultFn: (error: E) => U,
+    fn: (value: T) => U,
+  ) => self.mapOrElse(defaultFn, fn),
+);
+
+export const mapErr: {
+  <T, E, F>(fn: (error: E) => F): (self: Result<T, E>) => Result<T, F>;
+  <T, E, F>(self: Result<T, E>, fn: (error: E) => F): Result<T, F>;
+} = dual(2, <T, E, F>(self: Result<T, E>, fn: (error: E) => F) =>
+  self.mapErr(fn),
+);
+
+export const and: {
+  <U, E>(other: Result<U, E>): <T>(self: Result<T, E>) => Result<U, E>;
+  <T, E, U>(self: Result<T, E>, other: Result<U, E>): Result<U, E>;
+} = dual(2, <T, E, U>(self: Result<T, E>, other: Result<U, E>) =>
+  self.and(other),
+);
+
+export const andThen: {
+  <T, U, F>(
+    fn: (value: T) => Result<U, F>,
+  ): <E>(self: Result<T, E>) => Result<U, E | F>;
+  <T, E, U, F>(
+    self: Result<T, E>,
+    fn: (value: T) => Result<U, F>,
+  ): Result<U, E | F>;
+} = dual(2, <T, E, U, F>(self: Result<T, E>, fn: (value: T) => Result<U, F>) =>
+  self.andThen(fn),
+);
+
+export const flatMap: {
+  <T, U, F>(
+    fn: (value: T) => Result<U, F>,
+  ): <E>(self: Result<T, E>) => Result<U, E | F>;
+  <T, E, U, F>(
+    self: Result<T, E>,
+    fn: (value: T) => Result<U, F>,
+  ): Result<U, E | F>;
+} = dual(2, <T, E, U, F>(self: Result<T, E>, fn: (value: T) => Result<U, F>) =>
+  self.flatMap(fn),
+);
+
+export const flatten = <U, F, E>(
+  self: Result<Result<U, F>, E>,
+): Result<U, E | F> => self.flatten();
+
+export const or: {
+  <U, E>(other: Result<U, E>): <T>(self: Result<T, E>) => Result<T | U, E>;
+  <T, E, U>(self: Result<T, E>, other: Result<U, E>): Result<T | U, E>;
+} = dual(2, <T, E, U>(self: Result<T, E>, other: Result<U, E>) =>
+  self.or(other),
+);
+
+export const orElse: {
+  <T, E, U, F>(
+    fn: (error: E) => Result<U, F>,
+  ): (self: Result<T, E>) => Result<T | U, F>;
+  <T, E, U, F>(
+    self: Result<T, E>,
+    fn: (error: E) => Result<U, F>,
+  ): Result<T | U, F>;
+} = dual(2, <T, E, U, F>(self: Result<T, E>, fn: (error: E) => Result<U, F>) =>
+  self.orElse(fn),
+);
+
+export const catchTag: {
+  <T, E, K extends ErrorTag<E>, U, F>(
+    tag: K,
+    fn: (error: Tagged<E, K>) => Result<U, F>,
+  ): (self: Result<T, E>) => Result<T | U, Untagged<E, K> | F>;
+  <T, E, K extends ErrorTag<E>, U, F>(
+    self: Result<T, E>,
+    tag: K,
+    fn: (error: Tagged<E, K>) => Result<U, F>,
+  ): Result<T | U, Untagged<E, K> | F>;
+} = dual(
+  3,
+  <T, E, K extends ErrorTag<E>, U, F>(
+    self: Result<T, E>,
+    tag: K,
+    fn: (error: Tagged<E, K>) => Result<U, F>,
+  ) => self.catchTag(tag, fn),
+);
+
+export const inspect: {
+  <T, E>(fn: (value: T) => void): (self: Result<T, E>) => Result<T, E>;
+  <T, E>(self: Result<T, E>, fn: (value: T) => void): Result<T, E>;
+} = dual(2, <T, E>(self: Result<T, E>, fn: (value: T) => void) =>
+  self.inspect(fn),
+);
+
+export const inspectErr: {
+  <T, E>(fn: (error: E) => void): (self: Result<T, E>) => Result<T, E>;
+  <T, E>(self: Result<T, E>, fn: (error: E) => void): Result<T, E>;
+} = dual(2, <T, E>(self: Result<T, E>, fn: (error: E) => void) =>
+  self.inspectErr(fn),
+);
+
+// Unwrapping
+export const unwrap = <T, E>(self: Result<T, E>): T => self.unwrap();
+
+export const unwrapErr = <T, E>(self: Result<T, E>): E => self.unwrapErr();
+
+export const unwrapOr: {
+  <U>(defaultValue: U): <T, E>(self: Result<T, E>) => T | U;
+  <T, E, U>(self: Result<T, E>, defaultValue: U): T | U;
+} = dual(2, <T, E, U>(self: Result<T, E>, defaultValue: U) =>
+  self.unwrapOr(defaultValue),
+);
+
+export const unwrapOrElse: {
+  <T, E, U>(fn: (error: E) => U): (self: Result<T, E>) => T | U;
+  <T, E, U>(self: Result<T, E>, fn: (error: E) => U): T | U;
+} = dual(2, <T, E, U>(self: Result<T, E>, fn: (error: E) => U) =>
+  self.unwrapOrElse(fn),
+);
+
+export const unwrapOrDefault: {
+  <T>(provider: () => T): <E>(self: Result<T, E>) => T;
+  <T, E>(self: Result<T, E>, provider: () => T): T;
+} = dual(2, <T, E>(self: Result<T, E>, provider: () => T) =>
+  self.unwrapOrDefault(provider),
+);
+
+export const expect: {
+  (message: string): <T, E>(self: Result<T, E>) => T;
+  <T, E>(self: Result<T, E>, message: string): T;
+} = dual(2, <T, E>(self: Result<T, E>, message: string) =>
+  self.expect(message),
+);
+
+export const expectErr: {
+  (message: string): <T, E>(self: Result<T, E>) => E;
+  <T, E>(self: Result<T, E>, message: string): E;
+} = dual(2, <T, E>(self: Result<T, E>, message: string) =>
+  self.expectErr(message),
+);
+
+// Pattern matching
+type MatchHandlers<T, E, A, B> = {
+  ok: (value: T) => A;
+  err: ((error: E) => B) | ErrorHandlers<E, B>;
+};
+
+// Data-last, the two kinds of error handlers need separate overloads to infer B
+export const match: {
+  <T, E, A, B>(handlers: {
+    ok: (value: T) => A;
+    err: (error: E) => B;
+  }): (self: Result<T, E>) => A | B;
+  <T, E, A, B>(handlers: {
+    ok: (value: T) => A;
+    err: ErrorHandlers<E, B>;
+  }): (self: Result<T, E>) => A | B;
+  <T, E, A, B>(self: Result<T, E>, handlers: MatchHandlers<T, E, A, B>): A | B;
+} = dual(
+  2,
+  <T, E, A, B>(self: Result<T, E>, handlers: MatchHandlers<T, E, A, B>) =>
+    self.match(handlers),
+);
+
+// Conversion
+export const ok = <T, E>(self: Result<T, E>): Option<T> => self.ok();
+
+export const err = <T, E>(self: Result<T, E>): Option<E> => self.err();
+
+export const toArray = <T, E>(self: Result<T, E>): T[] => self.toArray();
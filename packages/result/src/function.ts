@@ -0,0 +1,2 @@
+// Re-exported so Result pipelines don't need a direct dependency on @rustify/option
+export { flow, pipe } from "@rustify/option/function";
@@ -1,14 +1,17 @@
-import { Result } from "./index";
+import type { MaybePromise } from "@rustify/option";
+import { AsyncResult } from "./async";
+import { toError } from "./errors";
+import { type ErrorOf, type OkOf, Result } from "./index";
 
-export const wrapAsync = async <T, E = Error>(
+export const wrapAsync = <T, E = Error>(
   promise: Promise<T>,
-): Promise<Result<T, E>> => {
-  try {
-    const value = await promise;
-    return Result.ok(value);
-  } catch (error) {
-    return Result.err(error as E);
-  }
+): AsyncResult<T, E> => {
+  return AsyncResult.from(
+    promise.then(
+      (value) => Result.ok(value),
+      (error) => Result.err(error as E),
+    ),
+  );
 };
 
 export const wrapSync = <T, E = Error>(fn: () => T): Result<T, E> => {
@@ -23,9 +26,218 @@ export const collect = <T, E>(results: Result<T, E>[]): Result<T[], E> => {
   const values: T[] = [];
   for (const result of results) {
     if (result.isErr()) {
-      return result;
+      return Result.err(result.error);
     }
     values.push(result.value);
   }
   return Result.ok(values);
 };
+
+/**
+ * Splits Results into their Ok values and their Err values
+ */
+export const partition = <T, E>(results: Result<T, E>[]): [T[], E[]] => {
+  const values: T[] = [];
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.isOk()) {
+      values.push(result.value);
+    } else {
+      errors.push(result.error);
+    }
+  }
+  return [values, errors];
+};
+
+/**
+ * Like collect, but accumulates every error instead of stopping at the first
+ */
+export const collectAll = <T, E>(results: Result<T, E>[]): Result<T[], E[]> => {
+  const [values, errors] = partition(results);
+  return errors.length > 0 ? Result.err(errors) : Result.ok(values);
+};
+
+/**
+ * Collects a record of Results into a Result of a record, failing on the first Err
+ */
+export const collectObject = <
+  R extends Record<string, Result<unknown, unknown>>,
+>(
+  results: R,
+): Result<{ [K in keyof R]: OkOf<R[K]> }, ErrorOf<R[keyof R]>> => {
+  const values: Record<string, unknown> = {};
+  for (const [key, result] of Object.entries(results)) {
+    if (result.isErr()) {
+      return result as Result<never, ErrorOf<R[keyof R]>>;
+    }
+    values[key] = result.value;
+  }
+  return Result.ok(values as { [K in keyof R]: OkOf<R[K]> });
+};
+
+/**
+ * Collects a tuple or record of Results, keeping the type of every position or key
+ */
+export function all<const R extends readonly Result<unknown, unknown>[]>(
+  results: R,
+): Result<{ -readonly [K in keyof R]: OkOf<R[K]> }, ErrorOf<R[number]>>;
+export function all<R extends Record<string, Result<unknown, unknown>>>(
+  results: R,
+): Result<{ [K in keyof R]: OkOf<R[K]> }, ErrorOf<R[keyof R]>>;
+export function all(
+  results:
+    | readonly Result<unknown, unknown>[]
+    | Record<string, Result<unknown, unknown>>,
+): Result<unknown, unknown> {
+  if (Array.isArray(results)) {
+    return collect(results);
+  }
+  return collectObject(results as Record<string, Result<unknown, unknown>>);
+}
+
+/**
+ * Returns the first Ok, or all errors when every Result is an Err
+ */
+export const any = <T, E>(results: Result<T, E>[]): Result<T, E[]> => {
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.isOk()) {
+      return Result.ok(result.value);
+    }
+    errors.push(result.error);
+  }
+  return Result.err(errors);
+};
+
+// Async operation receiving a signal that is aborted once its result is no longer needed
+export type Task<T, E> = (signal: AbortSignal) => MaybePromise<Result<T, E>>;
+
+/**
+ * Maps items through an async Result-returning function, running at most
+ * `concurrency` calls at once, a positive integer or Infinity. Fails fast: on the first Err no new call is
+ * started and the signal of the running ones is aborted
+ */
+export const mapAsync = <T, U, E>(
+  items: Iterable<T>,
+  fn: (
+    item: T,
+    index: number,
+    signal: AbortSignal,
+  ) => MaybePromise<Result<U, E>>,
+  { concurrency = Number.POSITIVE_INFINITY }: { concurrency?: number } = {},
+): AsyncResult<U[], E> => {
+  if (
+    !(Number.isInteger(concurrency) && concurrency >= 1) &&
+    concurrency !== Number.POSITIVE_INFINITY
+  ) {
+    throw new RangeError(`Invalid concurrency: ${concurrency}`);
+  }
+  const list = Array.from(items);
+  const controller = new AbortController();
+  return AsyncResult.from(
+    new Promise<Result<U[], E>>((resolve, reject) => {
+      const values: U[] = new Array(list.length);
+      let started = 0;
+      let remaining = list.length;
+      const launch = () => {
+        const index = started++;
+        (async () => fn(list[index], index, controller.signal))().then(
+          (result) => {
+            if (controller.signal.aborted) {
+              return;
+            }
+            if (result.isErr()) {
+              controller.abort(result.error);
+              resolve(Result.err(result.error));
+              return;
+            }
+            values[index] = result.value;
+            if (--remaining === 0) {
+              resolve(Result.ok(values));
+            } else if (started < list.length) {
+              launch();
+            }
+          },
+          (error) => {
+            if (!controller.signal.aborted) {
+              controller.abort(error);
+              reject(error);
+            }
+          },
+        );
+      };
+      if (list.length === 0) {
+        resolve(Result.ok(values));
+      }
+      while (started < Math.min(concurrency, list.length)) {
+        launch();
+      }
+    }),
+  );
+};
+
+/**
+ * Runs tasks in parallel and collects their values like collect
+ * Resolves on the first Err, aborting the signal of the other tasks
+ */
+export const allAsync = <T, E>(tasks: Task<T, E>[]): AsyncResult<T[], E> =>
+  mapAsync(tasks, (task, _index, signal) => task(signal));
+
+/**
+ * Runs tasks in parallel and waits for all of them, keeping Errs alongside Oks
+ * A task that throws or rejects settles as Err, mapped like in Result.fromThrowable
+ */
+export const allSettledAsync = async <T, E>(
+  tasks: Task<T, E>[],
+): Promise<Result<T, E | Error>[]> => {
+  const { signal } = new AbortController();
+  const settled = await Promise.allSettled(
+    tasks.map(async (task) => task(signal)),
+  );
+  return settled.map((outcome) =>
+    outcome.status === "fulfilled"
+      ? outcome.value
+      : Result.err(toError(outcome.reason)),
+  );
+};
+
+/**
+ * Runs tasks in parallel and resolves with the first Ok, aborting the others
+ * Resolves to every error, in task order, when all of them fail
+ */
+export const raceOk = <T, E>(tasks: Task<T, E>[]): AsyncResult<T, E[]> => {
+  const controller = new AbortController();
+  return AsyncResult.from(
+    new Promise<Result<T, E[]>>((resolve, reject) => {
+      const errors: E[] = new Array(tasks.length);
+      let remaining = tasks.length;
+      if (remaining === 0) {
+        resolve(Result.err(errors));
+      }
+      for (const [index, task] of tasks.entries()) {
+        (async () => task(controller.signal))().then(
+          (result) => {
+            if (controller.signal.aborted) {
+              return;
+            }
+            if (result.isOk()) {
+              controller.abort();
+              resolve(Result.ok(result.value));
+              return;
+            }
+            errors[index] = result.error;
+            if (--remaining === 0) {
+              resolve(Result.err(errors));
+            }
+          },
+          (error) => {
+            if (!controller.signal.aborted) {
+              controller.abort(error);
+              reject(error);
+            }
+          },
+        );
+      }
+    }),
+  );
+};
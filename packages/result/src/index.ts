@@ -1,58 +1,141 @@
-// Single Result class with discriminated union
-class Result<T, E> {
+import { deepEqual, naturalOrder, Option, toHashKey } from "@rustify/option";
+import {
+  ExpectError,
+  JsonShapeError,
+  tagOf,
+  toError,
+  UnwrapError,
+} from "./errors";
+
+// Single runtime class behind the Ok and Err variants
+class ResultImpl<T, E> {
   private constructor(
     private readonly _isOk: boolean,
     private readonly _value?: T,
     private readonly _error?: E,
   ) {}
 
-  // Static factory methods
-  static ok<T>(value: T): Result<T, never> {
-    return new Result<T, never>(true, value, undefined);
+  // Static factory methods, instances are frozen
+  static ok<T>(value: T): Ok<T, never> {
+    return Object.freeze(
+      new ResultImpl<T, never>(true, value, undefined),
+    ) as Ok<T, never>;
+  }
+
+  static err<E>(error: E): Err<never, E> {
+    return Object.freeze(
+      new ResultImpl<never, E>(false, undefined, error),
+    ) as Err<never, E>;
   }
 
-  static err<E>(error: E): Result<never, E> {
-    return new Result<never, E>(false, undefined, error);
+  /**
+   * Wraps a throwing function into one returning a Result, with the same parameters
+   * Thrown values go through `mapError`, by default non-Errors become UnknownErrors
+   */
+  static fromThrowable<A extends unknown[], T>(
+    fn: (...args: A) => T,
+  ): (...args: A) => Result<T, Error>;
+  static fromThrowable<A extends unknown[], T, E>(
+    fn: (...args: A) => T,
+    mapError: (thrown: unknown) => E,
+  ): (...args: A) => Result<T, E>;
+  static fromThrowable<A extends unknown[], T>(
+    fn: (...args: A) => T,
+    mapError: (thrown: unknown) => unknown = toError,
+  ): (...args: A) => Result<T, unknown> {
+    return (...args) => {
+      try {
+        return ResultImpl.ok(fn(...args));
+      } catch (thrown) {
+        return ResultImpl.err(mapError(thrown));
+      }
+    };
+  }
+
+  /**
+   * Settles a promise into a Result, rejections go through `mapError` like in fromThrowable
+   */
+  static fromPromise<T>(promise: PromiseLike<T>): Promise<Result<T, Error>>;
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (thrown: unknown) => E,
+  ): Promise<Result<T, E>>;
+  static async fromPromise<T>(
+    promise: PromiseLike<T>,
+    mapError: (thrown: unknown) => unknown = toError,
+  ): Promise<Result<T, unknown>> {
+    try {
+      return ResultImpl.ok(await promise);
+    } catch (thrown) {
+      return ResultImpl.err(mapError(thrown));
+    }
+  }
+
+  // Discriminant, narrows Result<T, E> in switch statements
+  get kind(): "Ok" | "Err" {
+    return this._isOk ? "Ok" : "Err";
   }
 
   // Type guards
-  isOk(): this is Result<T, never> {
+  isOk(): this is Ok<T, E> {
     return this._isOk;
   }
 
-  isErr(): this is Result<never, E> {
+  isErr(): this is Err<T, E> {
     return !this._isOk;
   }
 
+  isOkAnd(predicate: (value: T) => boolean): boolean {
+    return this._isOk && predicate(this._value!);
+  }
+
+  isErrAnd(predicate: (error: E) => boolean): boolean {
+    return !this._isOk && predicate(this._error!);
+  }
+
   // Getters for value and error (type-safe)
   get value(): T {
     if (!this._isOk) {
-      throw new Error("Called value on an Err result");
+      throw new UnwrapError("Called value on an Err result", this._error);
     }
     return this._value!;
   }
 
   get error(): E {
     if (this._isOk) {
-      throw new Error("Called error on an Ok result");
+      throw new UnwrapError("Called error on an Ok result", this._value);
     }
     return this._error!;
   }
 
-
   // Core methods
   map<U>(fn: (value: T) => U): Result<U, E> {
     if (this._isOk) {
-      return Result.ok(fn(this._value!));
+      return ResultImpl.ok(fn(this._value!));
     }
     return this as any;
   }
 
+  mapOr<U>(defaultValue: U, fn: (value: T) => U): U {
+    if (this._isOk) {
+      return fn(this._value!);
+    }
+    return defaultValue;
+  }
+
+  // Like Rust, the fallback receives the error
+  mapOrElse<U>(defaultFn: (error: E) => U, fn: (value: T) => U): U {
+    if (this._isOk) {
+      return fn(this._value!);
+    }
+    return defaultFn(this._error!);
+  }
+
   mapErr<F>(fn: (error: E) => F): Result<T, F> {
     if (this._isOk) {
       return this as any;
     }
-    return Result.err(fn(this._error!));
+    return ResultImpl.err(fn(this._error!));
   }
 
   and<U>(other: Result<U, E>): Result<U, E> {
@@ -69,6 +152,28 @@ class Result<T, E> {
     return this as any;
   }
 
+  /**
+   * andThen with an async callback, resolving to the callback's Result
+   * Wrap it with AsyncResult.from to keep chaining
+   */
+  async andThenAsync<U, F>(
+    fn: (value: T) => PromiseLike<Result<U, F>>,
+  ): Promise<Result<U, E | F>> {
+    if (this._isOk) {
+      return fn(this._value!);
+    }
+    return this as any;
+  }
+
+  // Alias of andThen
+  flatMap<U, F>(fn: (value: T) => Result<U, F>): Result<U, E | F> {
+    return this.andThen(fn);
+  }
+
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F> {
+    return this.andThen((inner) => inner);
+  }
+
   or<U>(other: Result<U, E>): Result<T | U, E> {
     if (this._isOk) {
       return this as any;
@@ -83,11 +188,40 @@ class Result<T, E> {
     return fn(this._error!);
   }
 
+  /**
+   * Handles a single error variant, removing it from the error type
+   * Errors with another tag are passed through unchanged
+   */
+  catchTag<K extends ErrorTag<E>, U, F>(
+    tag: K,
+    fn: (error: Extract<E, K | { readonly _tag: K }>) => Result<U, F>,
+  ): Result<T | U, Exclude<E, K | { readonly _tag: K }> | F> {
+    if (!this._isOk && tagOf(this._error) === tag) {
+      return fn(this._error as Extract<E, K | { readonly _tag: K }>);
+    }
+    return this as any;
+  }
+
+  // Calls fn with the Ok value, for side effects such as logging
+  inspect(fn: (value: T) => void): Result<T, E> {
+    if (this._isOk) {
+      fn(this._value!);
+    }
+    return this as Result<T, E>;
+  }
+
+  inspectErr(fn: (error: E) => void): Result<T, E> {
+    if (!this._isOk) {
+      fn(this._error!);
+    }
+    return this as Result<T, E>;
+  }
+
   unwrap(): T {
     if (this._isOk) {
       return this._value!;
     }
-    throw new Error(`Called unwrap on an Err value: ${this._error}`);
+    throw new UnwrapError("Called unwrap on an Err value", this._error);
   }
 
   unwrapOr<U>(defaultValue: U): T | U {
@@ -104,16 +238,299 @@ class Result<T, E> {
     return fn(this._error!);
   }
 
+  /**
+   * Like unwrapOrElse, but the provider must produce a value of the same type,
+   * standing in for Rust's Default trait
+   */
+  unwrapOrDefault(provider: () => T): T {
+    if (this._isOk) {
+      return this._value!;
+    }
+    return provider();
+  }
+
   expect(message: string): T {
     if (this._isOk) {
       return this._value!;
     }
-    throw new Error(`${message}: ${this._error}`);
+    throw new ExpectError(message, this._error);
+  }
+
+  unwrapErr(): E {
+    if (!this._isOk) {
+      return this._error!;
+    }
+    throw new UnwrapError("Called unwrapErr on an Ok value", this._value);
+  }
+
+  expectErr(message: string): E {
+    if (!this._isOk) {
+      return this._error!;
+    }
+    throw new ExpectError(message, this._value);
+  }
+
+  // Unwraps a Result that cannot be an Err, checked at compile time
+  intoOk(this: Result<T, never>): T {
+    return this.unwrap();
+  }
+
+  // Unwraps a Result that cannot be an Ok, checked at compile time
+  intoErr(this: Result<never, E>): E {
+    return this.unwrapErr();
   }
+
+  // Pattern matching
+  match<A, B>(handlers: {
+    ok: (value: T) => A;
+    err: ((error: E) => B) | ErrorHandlers<E, B>;
+  }): A | B {
+    if (this._isOk) {
+      return handlers.ok(this._value!);
+    }
+    if (typeof handlers.err === "function") {
+      return handlers.err(this._error!);
+    }
+    const byTag = handlers.err as Record<string, (error: E) => B>;
+    const tag = tagOf(this._error);
+    if (tag === undefined || !Object.hasOwn(byTag, tag)) {
+      throw new TypeError(`No match handler for error tag: ${tag}`, {
+        cause: this._error,
+      });
+    }
+    return byTag[tag](this._error!);
+  }
+
+  // Equality and ordering
+  equals(
+    other: Result<T, E>,
+    eq: (a: T, b: T) => boolean = deepEqual,
+    eqErr: (a: E, b: E) => boolean = deepEqual,
+  ): boolean {
+    if (this._isOk && other.isOk()) {
+      return eq(this._value!, other.value);
+    }
+    if (!this._isOk && other.isErr()) {
+      return eqErr(this._error!, other.error);
+    }
+    return false;
+  }
+
+  /**
+   * Orders like Rust's Ord, any Ok before any Err, then by `cmp` or `cmpErr`
+   * Both default to the natural ordering of primitives
+   */
+  compare(
+    other: Result<T, E>,
+    cmp: (a: T, b: T) => number = naturalOrder,
+    cmpErr: (a: E, b: E) => number = naturalOrder,
+  ): number {
+    if (this._isOk && other.isOk()) {
+      return cmp(this._value!, other.value);
+    }
+    if (!this._isOk && other.isErr()) {
+      return cmpErr(this._error!, other.error);
+    }
+    return this._isOk ? -1 : 1;
+  }
+
+  // Stable key, equal for deeply equal Results, for use in Maps and Sets
+  hashKey(): string {
+    return this._isOk
+      ? `Ok(${toHashKey(this._value)})`
+      : `Err(${toHashKey(this._error)})`;
+  }
+
+  // Stable wire format used by JSON.stringify
+  toJSON(): ResultJSON<T, E> {
+    if (this._isOk) {
+      return { $result: "Ok", value: this._value! };
+    }
+    return { $result: "Err", error: this._error! };
+  }
+
+  /**
+   * Revives a Result from its JSON representation
+   * Returns Err(JsonShapeError) when the input is not a valid ResultJSON
+   */
+  static fromJSON<T, E>(
+    json: ResultJSON<T, E>,
+  ): Result<Result<T, E>, JsonShapeError>;
+  static fromJSON(
+    json: unknown,
+  ): Result<Result<unknown, unknown>, JsonShapeError>;
+  static fromJSON(
+    json: unknown,
+  ): Result<Result<unknown, unknown>, JsonShapeError> {
+    if (typeof json === "object" && json !== null) {
+      const record = json as Record<string, unknown>;
+      if (record.$result === "Ok") {
+        return ResultImpl.ok(ResultImpl.ok(record.value));
+      }
+      if (record.$result === "Err") {
+        return ResultImpl.ok(ResultImpl.err(record.error));
+      }
+    }
+    return ResultImpl.err(
+      new JsonShapeError({ expected: '{ "$result": "Ok" | "Err" } object' }),
+    );
+  }
+
+  // Conversion to Option
+  ok(): Option<T> {
+    if (this._isOk) {
+      return Option.some(this._value!);
+    }
+    return Option.none;
+  }
+
+  err(): Option<E> {
+    if (this._isOk) {
+      return Option.none;
+    }
+    return Option.some(this._error!);
+  }
+
+  /**
+   * Iterates over the Ok value, yielding once for Ok and never for Err
+   */
+  *iter(): Generator<T, void, undefined> {
+    if (this._isOk) {
+      yield this._value!;
+    }
+  }
+
+  // Iterates over the Err value
+  *iterErr(): Generator<E, void, undefined> {
+    if (!this._isOk) {
+      yield this._error!;
+    }
+  }
+
+  // One-element array for Ok, empty for Err, handy with Array#flatMap
+  toArray(): T[] {
+    return this._isOk ? [this._value!] : [];
+  }
+
+  /**
+   * Transpose Result<Option<T>, E> to Option<Result<T, E>>
+   * Ok(None) maps to None, Ok(Some(v)) to Some(Ok(v)) and Err(e) to Some(Err(e))
+   */
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    if (this.isOk()) {
+      return this.value.map((value) => ResultImpl.ok(value));
+    }
+    return Option.some(ResultImpl.err(this.error));
+  }
+
+  /**
+   * Runs a generator in which `yield* result.try()` unwraps an Ok or returns
+   * the Err early, emulating Rust's `?` operator
+   */
+  static gen<E, T>(body: () => Generator<E, T, unknown>): Result<T, E> {
+    const iterator = body();
+    const next = iterator.next();
+    if (next.done) {
+      return ResultImpl.ok(next.value);
+    }
+    iterator.return(undefined as T);
+    return ResultImpl.err(next.value);
+  }
+
+  // Same as iter(), so Results work with spread, for-of and Array.from
+  [Symbol.iterator](): Generator<T, void, undefined> {
+    return this.iter();
+  }
+
+  /**
+   * Used by `yield*` inside Result.gen, named after Rust's try! macro
+   * An Err yields its error to stop the generator
+   */
+  *try(): Generator<E, T, unknown> {
+    if (!this._isOk) {
+      yield this._error!;
+    }
+    return this._value!;
+  }
+}
+
+type ResultMethods<T, E> = Omit<ResultImpl<T, E>, "kind" | "value" | "error">;
+
+// Success variant, `value` is only available on this variant
+export interface Ok<T, E> extends ResultMethods<T, E> {
+  readonly kind: "Ok";
+  readonly value: T;
+}
+
+// Failure variant, `error` is only available on this variant
+export interface Err<T, E> extends ResultMethods<T, E> {
+  readonly kind: "Err";
+  readonly error: E;
 }
 
-export const Ok = Result.ok;
-export const Err = Result.err;
+/**
+ * Discriminated union of Ok and Err, narrowed by isOk/isErr or by
+ * switching on `kind`
+ */
+export type Result<T, E> = Ok<T, E> | Err<T, E>;
+
+// Discriminant of an error union: the literal itself for string unions, `_tag` otherwise
+export type ErrorTag<E> = E extends string
+  ? E
+  : E extends { readonly _tag: infer K extends string }
+    ? K
+    : never;
+
+// Required key that no handler record can provide, reported by the compiler
+declare const untaggedErrorsNeedAFunctionHandler: unique symbol;
+type UntaggedKey = typeof untaggedErrorsNeedAFunctionHandler;
+
+// UntaggedKey for members of E without a literal discriminant
+type UntaggedTag<E> = E extends string
+  ? string extends E
+    ? UntaggedKey
+    : never
+  : E extends { readonly _tag: infer K extends string }
+    ? string extends K
+      ? UntaggedKey
+      : never
+    : UntaggedKey;
+
+/**
+ * One handler per error variant, missing variants are a compile-time error
+ * Only usable when every member of E is a string literal or has a literal
+ * `_tag`, otherwise some variant would have no handler
+ */
+export type ErrorHandlers<E, R> = {
+  [K in ErrorTag<E> | UntaggedTag<E>]: K extends UntaggedKey
+    ? never
+    : (error: Extract<E, K | { readonly _tag: K }>) => R;
+};
+
+// JSON representation produced by Result.toJSON, `$result` marks it the way
+// `$error` marks serialized errors
+export type ResultJSON<T, E> =
+  | { $result: "Ok"; value: T }
+  | { $result: "Err"; error: E };
+
+// Extracts the success type from a union of Results
+export type OkOf<R> = R extends Result<infer T, unknown> ? T : never;
+
+// Extracts the error type from a union of Results
+export type ErrorOf<R> = R extends Result<unknown, infer E> ? E : never;
+
+export {
+  defineError,
+  ExpectError,
+  JsonShapeError,
+  TaggedError,
+  type TaggedErrorClass,
+  UnknownError,
+  UnwrapError,
+} from "./errors";
+
+// The Result class, with the static constructors and for instanceof checks
+export const Result = ResultImpl;
 
-// Export the Result class and create type alias
-export { Result };
+export const Ok = ResultImpl.ok;
+export const Err = ResultImpl.err;
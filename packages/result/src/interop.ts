@@ -0,0 +1,38 @@
+import { Option } from "@rustify/option";
+import { Result } from "./index";
+
+/**
+ * Converts an Option into a Result, mapping Some(v) to Ok(v) and None to Err(error)
+ */
+export const okOr = <T, E>(option: Option<T>, error: E): Result<T, E> => {
+  if (option.isSome()) {
+    return Result.ok(option.value);
+  }
+  return Result.err(error);
+};
+
+/**
+ * Lazy version of okOr, the error is only computed when the Option is None
+ */
+export const okOrElse = <T, E>(
+  option: Option<T>,
+  fn: () => E,
+): Result<T, E> => {
+  if (option.isSome()) {
+    return Result.ok(option.value);
+  }
+  return Result.err(fn());
+};
+
+/**
+ * Transpose Option<Result<T, E>> to Result<Option<T>, E>
+ * None maps to Ok(None), Some(Ok(v)) to Ok(Some(v)) and Some(Err(e)) to Err(e)
+ */
+export const transpose = <T, E>(
+  option: Option<Result<T, E>>,
+): Result<Option<T>, E> => {
+  if (option.isNone()) {
+    return Result.ok(Option.none);
+  }
+  return option.value.map((value) => Option.some(value));
+};
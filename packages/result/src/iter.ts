@@ -0,0 +1,390 @@
+import { type MaybePromise, Option } from "@rustify/option";
+import { Result } from "./index";
+
+/**
+ * Lazy iterator modeled on Rust's Iterator trait
+ * Adapters do no work until a consuming method (collect, fold, ...) runs,
+ * and like Rust iterators an Iter can only be consumed once
+ */
+export class Iter<T> implements Iterable<T> {
+  private constructor(private readonly _source: Iterable<T>) {}
+
+  static from<T>(source: Iterable<T>): Iter<T> {
+    return source instanceof Iter ? source : new Iter(source);
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this._source[Symbol.iterator]();
+  }
+
+  // Adapters
+  map<U>(fn: (item: T) => U): Iter<U> {
+    return this.pipe(function* (source) {
+      for (const item of source) {
+        yield fn(item);
+      }
+    });
+  }
+
+  filter(predicate: (item: T) => boolean): Iter<T> {
+    return this.pipe(function* (source) {
+      for (const item of source) {
+        if (predicate(item)) {
+          yield item;
+        }
+      }
+    });
+  }
+
+  filterMap<U>(fn: (item: T) => Option<U>): Iter<U> {
+    return this.pipe(function* (source) {
+      for (const item of source) {
+        const mapped = fn(item);
+        if (mapped.isSome()) {
+          yield mapped.value;
+        }
+      }
+    });
+  }
+
+  mapWhile<U>(fn: (item: T) => Option<U>): Iter<U> {
+    return this.pipe(function* (source) {
+      for (const item of source) {
+        const mapped = fn(item);
+        if (mapped.isNone()) {
+          return;
+        }
+        yield mapped.value;
+      }
+    });
+  }
+
+  take(count: number): Iter<T> {
+    return this.pipe(function* (source) {
+      if (count <= 0) {
+        return;
+      }
+      let taken = 0;
+      for (const item of source) {
+        yield item;
+        if (++taken >= count) {
+          return;
+        }
+      }
+    });
+  }
+
+  skip(count: number): Iter<T> {
+    return this.pipe(function* (source) {
+      let skipped = 0;
+      for (const item of source) {
+        if (skipped < count) {
+          skipped++;
+        } else {
+          yield item;
+        }
+      }
+    });
+  }
+
+  enumerate(): Iter<[number, T]> {
+    return this.pipe(function* (source) {
+      let index = 0;
+      for (const item of source) {
+        yield [index++, item] as [number, T];
+      }
+    });
+  }
+
+  zip<U>(other: Iterable<U>): Iter<[T, U]> {
+    return this.pipe(function* (source) {
+      const others = other[Symbol.iterator]();
+      try {
+        for (const item of source) {
+          const next = others.next();
+          if (next.done) {
+            return;
+          }
+          yield [item, next.value] as [T, U];
+        }
+      } finally {
+        others.return?.();
+      }
+    });
+  }
+
+  chain<U>(other: Iterable<U>): Iter<T | U> {
+    return this.pipe(function* (source): Generator<T | U> {
+      yield* source;
+      yield* other;
+    });
+  }
+
+  // Consumers
+  find(predicate: (item: T) => boolean): Option<T> {
+    for (const item of this._source) {
+      if (predicate(item)) {
+        return Option.some(item);
+      }
+    }
+    return Option.none;
+  }
+
+  findMap<U>(fn: (item: T) => Option<U>): Option<U> {
+    for (const item of this._source) {
+      const mapped = fn(item);
+      if (mapped.isSome()) {
+        return mapped;
+      }
+    }
+    return Option.none;
+  }
+
+  fold<A>(init: A, fn: (acc: A, item: T) => A): A {
+    let acc = init;
+    for (const item of this._source) {
+      acc = fn(acc, item);
+    }
+    return acc;
+  }
+
+  /**
+   * Folds while the callback returns Ok, stopping at the first Err
+   */
+  tryFold<A, E>(init: A, fn: (acc: A, item: T) => Result<A, E>): Result<A, E> {
+    let acc = init;
+    for (const item of this._source) {
+      const result = fn(acc, item);
+      if (result.isErr()) {
+        return result;
+      }
+      acc = result.value;
+    }
+    return Result.ok(acc);
+  }
+
+  tryForEach<E>(fn: (item: T) => Result<unknown, E>): Result<void, E> {
+    return this.tryFold<void, E>(undefined, (_, item) =>
+      fn(item).map(() => undefined),
+    );
+  }
+
+  count(): number {
+    return this.fold(0, (count) => count + 1);
+  }
+
+  collect(): T[] {
+    return Array.from(this._source);
+  }
+
+  collectMap<K, V>(this: Iter<readonly [K, V]>): Map<K, V> {
+    return new Map(this._source);
+  }
+
+  // Collects Ok values, stopping at the first Err
+  collectResult<U, E>(this: Iter<Result<U, E>>): Result<U[], E> {
+    return this.tryFold<U[], E>([], (values, result) =>
+      result.map((value) => {
+        values.push(value);
+        return values;
+      }),
+    );
+  }
+
+  // Collects Some values, stopping at the first None
+  collectOption<U>(this: Iter<Option<U>>): Option<U[]> {
+    const values: U[] = [];
+    for (const option of this._source) {
+      if (option.isNone()) {
+        return Option.none;
+      }
+      values.push(option.value);
+    }
+    return Option.some(values);
+  }
+
+  private pipe<U>(adapter: (source: Iterable<T>) => Iterable<U>): Iter<U> {
+    return new Iter(adapter(this._source));
+  }
+}
+
+/**
+ * Async counterpart of Iter over AsyncIterables (and Iterables)
+ * Callbacks may return promises
+ */
+export class AsyncIter<T> implements AsyncIterable<T> {
+  private constructor(
+    private readonly _source: AsyncIterable<T> | Iterable<T>,
+  ) {}
+
+  static from<T>(source: AsyncIterable<T> | Iterable<T>): AsyncIter<T> {
+    return source instanceof AsyncIter ? source : new AsyncIter(source);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    yield* this._source;
+  }
+
+  // Adapters
+  map<U>(fn: (item: T) => MaybePromise<U>): AsyncIter<U> {
+    return this.pipe(async function* (source) {
+      for await (const item of source) {
+        yield await fn(item);
+      }
+    });
+  }
+
+  filter(predicate: (item: T) => MaybePromise<boolean>): AsyncIter<T> {
+    return this.pipe(async function* (source) {
+      for await (const item of source) {
+        if (await predicate(item)) {
+          yield item;
+        }
+      }
+    });
+  }
+
+  filterMap<U>(fn: (item: T) => MaybePromise<Option<U>>): AsyncIter<U> {
+    return this.pipe(async function* (source) {
+      for await (const item of source) {
+        const mapped = await fn(item);
+        if (mapped.isSome()) {
+          yield mapped.value;
+        }
+      }
+    });
+  }
+
+  mapWhile<U>(fn: (item: T) => MaybePromise<Option<U>>): AsyncIter<U> {
+    return this.pipe(async function* (source) {
+      for await (const item of source) {
+        const mapped = await fn(item);
+        if (mapped.isNone()) {
+          return;
+        }
+        yield mapped.value;
+      }
+    });
+  }
+
+  take(count: number): AsyncIter<T> {
+    return this.pipe(async function* (source) {
+      if (count <= 0) {
+        return;
+      }
+      let taken = 0;
+      for await (const item of source) {
+        yield item;
+        if (++taken >= count) {
+          return;
+        }
+      }
+    });
+  }
+
+  zip<U>(other: AsyncIterable<U> | Iterable<U>): AsyncIter<[T, U]> {
+    return this.pipe(async function* (source) {
+      const others = AsyncIter.from(other)[Symbol.asyncIterator]();
+      try {
+        for await (const item of source) {
+          const next = await others.next();
+          if (next.done) {
+            return;
+          }
+          yield [item, next.value] as [T, U];
+        }
+      } finally {
+        await others.return?.();
+      }
+    });
+  }
+
+  chain<U>(other: AsyncIterable<U> | Iterable<U>): AsyncIter<T | U> {
+    return this.pipe(async function* (source): AsyncGenerator<T | U> {
+      yield* source;
+      yield* other;
+    });
+  }
+
+  // Consumers
+  async findMap<U>(
+    fn: (item: T) => MaybePromise<Option<U>>,
+  ): Promise<Option<U>> {
+    for await (const item of this._source) {
+      const mapped = await fn(item);
+      if (mapped.isSome()) {
+        return mapped;
+      }
+    }
+    return Option.none;
+  }
+
+  async fold<A>(init: A, fn: (acc: A, item: T) => MaybePromise<A>): Promise<A> {
+    let acc = init;
+    for await (const item of this._source) {
+      acc = await fn(acc, item);
+    }
+    return acc;
+  }
+
+  async tryFold<A, E>(
+    init: A,
+    fn: (acc: A, item: T) => MaybePromise<Result<A, E>>,
+  ): Promise<Result<A, E>> {
+    let acc = init;
+    for await (const item of this._source) {
+      const result = await fn(acc, item);
+      if (result.isErr()) {
+        return result;
+      }
+      acc = result.value;
+    }
+    return Result.ok(acc);
+  }
+
+  tryForEach<E>(
+    fn: (item: T) => MaybePromise<Result<unknown, E>>,
+  ): Promise<Result<void, E>> {
+    return this.tryFold<void, E>(undefined, async (_, item) =>
+      (await fn(item)).map(() => undefined),
+    );
+  }
+
+  async collect(): Promise<T[]> {
+    const values: T[] = [];
+    for await (const item of this._source) {
+      values.push(item);
+    }
+    return values;
+  }
+
+  async collectMap<K, V>(this: AsyncIter<readonly [K, V]>): Promise<Map<K, V>> {
+    return new Map(await this.collect());
+  }
+
+  collectResult<U, E>(this: AsyncIter<Result<U, E>>): Promise<Result<U[], E>> {
+    return this.tryFold<U[], E>([], (values, result) =>
+      result.map((value) => {
+        values.push(value);
+        return values;
+      }),
+    );
+  }
+
+  async collectOption<U>(this: AsyncIter<Option<U>>): Promise<Option<U[]>> {
+    const values: U[] = [];
+    for await (const option of this._source) {
+      if (option.isNone()) {
+        return Option.none;
+      }
+      values.push(option.value);
+    }
+    return Option.some(values);
+  }
+
+  private pipe<U>(
+    adapter: (source: AsyncIterable<T> | Iterable<T>) => AsyncIterable<U>,
+  ): AsyncIter<U> {
+    return new AsyncIter(adapter(this._source));
+  }
+}
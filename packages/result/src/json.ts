@@ -0,0 +1,245 @@
+import { Option, type OptionJSON } from "@rustify/option";
+import {
+  ExpectError,
+  JsonShapeError,
+  UnknownError,
+  UnwrapError,
+} from "./errors";
+import { Result } from "./index";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  isRecord(value) &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null);
+
+// No keys besides the given ones, a missing key was an undefined field
+const hasOnlyKeys = (record: Record<string, unknown>, ...keys: string[]) =>
+  Object.keys(record).every((key) => keys.includes(key));
+
+/**
+ * Revives an Option from its JSON representation
+ * Returns Err(JsonShapeError) when the input is not a valid OptionJSON
+ */
+export function optionFromJSON<T>(
+  json: OptionJSON<T>,
+): Result<Option<T>, JsonShapeError>;
+export function optionFromJSON(
+  json: unknown,
+): Result<Option<unknown>, JsonShapeError>;
+export function optionFromJSON(
+  json: unknown,
+): Result<Option<unknown>, JsonShapeError> {
+  if (isRecord(json)) {
+    if (json.$option === "Some") {
+      return Result.ok(Option.some(json.value));
+    }
+    if (json.$option === "None") {
+      return Result.ok(Option.none);
+    }
+  }
+  return Result.err(
+    new JsonShapeError({ expected: '{ "$option": "Some" | "None" } object' }),
+  );
+}
+
+// Serialized form of an Error, `$error` holds its name
+export type SerializedError = {
+  $error: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  props?: Record<string, unknown>;
+};
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+const builtinErrors: Record<string, ErrorClass> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  AggregateError,
+  UnwrapError,
+  ExpectError,
+  JsonShapeError,
+  UnknownError,
+};
+
+const registry = new Map<string, ErrorClass>(Object.entries(builtinErrors));
+
+/**
+ * Registers a custom error class, so serialized errors with this name are
+ * rehydrated as instances of it. The name must match the instances' `name`,
+ * which for tagged errors is their `_tag`
+ */
+export const registerError = (name: string, errorClass: ErrorClass): void => {
+  registry.set(name, errorClass);
+};
+
+const reservedKeys = new Set(["name", "message", "stack", "cause", "errors"]);
+
+/**
+ * Converts an Error into plain data, keeping its name, message, stack,
+ * cause, aggregated errors and own enumerable fields. Nested errors are
+ * serialized as well
+ */
+export const serializeError = (error: Error): SerializedError => {
+  const serialized: SerializedError = {
+    $error: error.name,
+    message: error.message,
+  };
+  if (error.stack !== undefined) {
+    serialized.stack = error.stack;
+  }
+  if ("cause" in error) {
+    serialized.cause = serialize(error.cause);
+  }
+  const errors = (error as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    serialized.errors = errors.map(serialize);
+  }
+  const props = Object.entries(error).filter(([key]) => !reservedKeys.has(key));
+  if (props.length > 0) {
+    serialized.props = Object.fromEntries(
+      props.map(([key, value]) => [key, serialize(value)]),
+    );
+  }
+  return serialized;
+};
+
+const isSerializedError = (value: unknown): value is SerializedError =>
+  isRecord(value) &&
+  typeof value.$error === "string" &&
+  typeof value.message === "string";
+
+const defineHidden = (target: object, key: string, value: unknown) => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: false,
+  });
+};
+
+/**
+ * Rehydrates a serialized error as an instance of its registered class,
+ * falling back to Error while keeping the original name
+ */
+export const deserializeError = (json: SerializedError): Error => {
+  const errorClass = registry.get(json.$error) ?? Error;
+  const error = Object.create(errorClass.prototype) as Error;
+  defineHidden(error, "message", json.message);
+  if (json.stack !== undefined) {
+    defineHidden(error, "stack", json.stack);
+  }
+  if ("cause" in json) {
+    defineHidden(error, "cause", deserialize(json.cause));
+  }
+  if (json.errors !== undefined) {
+    defineHidden(error, "errors", json.errors.map(deserialize));
+  }
+  if (json.props !== undefined) {
+    // Defined rather than assigned, so a "__proto__" prop from untrusted
+    // input stays a plain field instead of replacing the prototype
+    for (const [key, value] of Object.entries(json.props)) {
+      Object.defineProperty(error, key, {
+        value: deserialize(value),
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+  }
+  if (error.name !== json.$error) {
+    defineHidden(error, "name", json.$error);
+  }
+  return error;
+};
+
+/**
+ * JSON.stringify replacer serializing Error values, including those held by Err
+ *
+ * JSON.stringify(value, replacer)
+ */
+export const replacer = (_key: string, value: unknown): unknown =>
+  value instanceof Error ? serializeError(value) : value;
+
+/**
+ * JSON.parse reviver turning serialized Results, Options and Errors back into instances
+ * Only objects carrying the `$result` or `$option` marker and no keys besides
+ * those of the wire format are revived. The payload key may be missing,
+ * JSON.stringify drops undefined fields so Ok(undefined) is sent as
+ * {"$result":"Ok"}
+ *
+ * JSON.parse(text, reviver)
+ */
+export const reviver = (_key: string, value: unknown): unknown => {
+  if (!isRecord(value)) {
+    return value;
+  }
+  if (isSerializedError(value)) {
+    return deserializeError(value);
+  }
+  if (
+    (value.$result === "Ok" && hasOnlyKeys(value, "$result", "value")) ||
+    (value.$result === "Err" && hasOnlyKeys(value, "$result", "error"))
+  ) {
+    return Result.fromJSON(value).unwrap();
+  }
+  if (
+    (value.$option === "Some" && hasOnlyKeys(value, "$option", "value")) ||
+    (value.$option === "None" && hasOnlyKeys(value, "$option"))
+  ) {
+    return optionFromJSON(value).unwrap();
+  }
+  return value;
+};
+
+/**
+ * Converts a value into plain data safe for structured cloning and JSON:
+ * Results, Options and Errors are replaced by their serialized forms,
+ * plain objects and arrays are walked, anything else is kept as is
+ */
+export const serialize = (value: unknown): unknown => {
+  if (value instanceof Result || value instanceof Option) {
+    return serialize(value.toJSON());
+  }
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, serialize(entry)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Inverse of serialize, revives Results, Options and Errors at any depth
+ */
+export const deserialize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(deserialize);
+  }
+  if (isSerializedError(value)) {
+    return deserializeError(value);
+  }
+  if (isPlainObject(value)) {
+    const revived = Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, deserialize(entry)]),
+    );
+    return reviver("", revived);
+  }
+  return value;
+};
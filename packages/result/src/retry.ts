@@ -0,0 +1,198 @@
+import type { MaybePromise } from "@rustify/option";
+import { AsyncResult } from "./async";
+import { defineError, TaggedError } from "./errors";
+import { Result } from "./index";
+
+/**
+ * Returned by withTimeout when the operation did not settle in time
+ */
+export const TimeoutError = defineError(
+  "TimeoutError",
+  (fields: { ms: number }) => `Timed out after ${fields.ms}ms`,
+);
+export type TimeoutError = InstanceType<typeof TimeoutError>;
+
+/**
+ * Returned when an AbortSignal fires, `reason` is the signal's reason
+ */
+export const AbortError = defineError(
+  "AbortError",
+  (_fields: { reason: unknown }) => "The operation was aborted",
+);
+export type AbortError = InstanceType<typeof AbortError>;
+
+/**
+ * Returned by retry once it gives up, keeps the error of every attempt
+ * The last error is also available as `cause`
+ */
+export class RetryError<E = unknown> extends TaggedError<"RetryError"> {
+  declare readonly cause: E;
+
+  constructor(readonly errors: E[]) {
+    const count = errors.length;
+    super(
+      "RetryError",
+      `Failed after ${count} attempt${count === 1 ? "" : "s"}`,
+      {
+        cause: errors[errors.length - 1],
+      },
+    );
+  }
+
+  get attempts(): number {
+    return this.errors.length;
+  }
+}
+
+// Delay in milliseconds before the next attempt, `attempt` starts at 1
+export type Backoff = (attempt: number) => number;
+
+export const constant =
+  (ms: number): Backoff =>
+  () =>
+    ms;
+
+/**
+ * Doubles the delay after every attempt by default: 100ms, 200ms, 400ms, ...
+ */
+export const exponential =
+  ({ base = 100, factor = 2, max = Number.POSITIVE_INFINITY } = {}): Backoff =>
+  (attempt) =>
+    Math.min(base * factor ** (attempt - 1), max);
+
+/**
+ * Randomizes a backoff between 0 and its delay ("full jitter"),
+ * spreading out retries of concurrent clients
+ */
+export const jittered =
+  (backoff: Backoff, random: () => number = Math.random): Backoff =>
+  (attempt) =>
+    Math.round(random() * backoff(attempt));
+
+const aborted = (signal: AbortSignal): Result<never, AbortError> =>
+  Result.err(new AbortError({ reason: signal.reason }));
+
+const sleep = (
+  ms: number,
+  signal: AbortSignal,
+): Promise<Result<void, AbortError>> =>
+  new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve(aborted(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(aborted(signal));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(Result.ok(undefined));
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Settles with Ok of the pending value, or Err(AbortError) as soon as the signal fires
+const untilAborted = <T>(
+  pending: MaybePromise<T>,
+  signal: AbortSignal,
+): Promise<Result<T, AbortError>> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      resolve(aborted(signal));
+      return;
+    }
+    const onAbort = () => resolve(aborted(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(pending)
+      .finally(() => signal.removeEventListener("abort", onAbort))
+      .then((value) => resolve(Result.ok(value)), reject);
+  });
+
+export type RetryOptions<E> = {
+  // Maximum number of attempts, including the first one, at least 1
+  attempts: number;
+  // Defaults to exponential()
+  backoff?: Backoff;
+  // Errors for which it returns false are not retried
+  retryIf?: (error: E, attempt: number) => boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * Calls a Result-returning operation until it succeeds, waiting between attempts
+ * Gives up with a RetryError after `attempts` failures or a non-retryable error,
+ * and with an AbortError as soon as the signal fires, even during an attempt.
+ * The operation receives the signal to stop its own work
+ */
+export const retry = <T, E>(
+  fn: (attempt: number, signal: AbortSignal) => MaybePromise<Result<T, E>>,
+  options: RetryOptions<E>,
+): AsyncResult<T, RetryError<E> | AbortError> => {
+  const {
+    attempts,
+    backoff = exponential(),
+    retryIf = () => true,
+    signal = new AbortController().signal,
+  } = options;
+  if (!(attempts >= 1)) {
+    throw new RangeError(`Invalid attempts: ${attempts}`);
+  }
+  return AsyncResult.from(
+    (async (): Promise<Result<T, RetryError<E> | AbortError>> => {
+      const errors: E[] = [];
+      for (let attempt = 1; ; attempt++) {
+        if (signal.aborted) {
+          return aborted(signal);
+        }
+        const settled = await untilAborted(fn(attempt, signal), signal);
+        if (settled.isErr()) {
+          return Result.err(settled.error);
+        }
+        const result = settled.value;
+        if (result.isOk()) {
+          return Result.ok(result.value);
+        }
+        errors.push(result.error);
+        if (attempt >= attempts || !retryIf(result.error, attempt)) {
+          return Result.err(new RetryError(errors));
+        }
+        const delay = backoff(attempt);
+        if (delay > 0) {
+          const slept = await sleep(delay, signal);
+          if (slept.isErr()) {
+            return Result.err(slept.error);
+          }
+        }
+      }
+    })(),
+  );
+};
+
+/**
+ * Resolves to Err(TimeoutError) when the operation takes longer than `ms`
+ * When given a function, it receives a signal that is aborted on timeout
+ */
+export const withTimeout = <T, E>(
+  operation:
+    | PromiseLike<Result<T, E>>
+    | ((signal: AbortSignal) => PromiseLike<Result<T, E>>),
+  ms: number,
+): AsyncResult<T, E | TimeoutError> => {
+  const controller = new AbortController();
+  const pending =
+    typeof operation === "function" ? operation(controller.signal) : operation;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Result<T, E | TimeoutError>>((resolve) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError({ ms });
+      controller.abort(error);
+      resolve(Result.err(error));
+    }, ms);
+  });
+  return AsyncResult.from(
+    Promise.race<Result<T, E | TimeoutError>>([pending, timeout]).finally(() =>
+      clearTimeout(timer),
+    ),
+  );
+};
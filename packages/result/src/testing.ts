@@ -0,0 +1,70 @@
+import type { ExpectStatic } from "vitest";
+import { Result } from "./index";
+
+// vitest does not re-export MatcherState, derive it from expect.extend
+type MatcherState = ThisParameterType<
+  Parameters<ExpectStatic["extend"]>[0][string]
+>;
+
+interface ResultMatchers<R = unknown> {
+  toBeOk(expected?: unknown): R;
+  toBeErr(): R;
+  toBeErrWith(expected: unknown): R;
+}
+
+declare module "vitest" {
+  interface Matchers<T = any> extends ResultMatchers<T> {}
+}
+
+const show = (state: MatcherState, value: unknown): string =>
+  value instanceof Result
+    ? value.match({
+        ok: (inner) => `Ok(${state.utils.stringify(inner)})`,
+        err: (inner) => `Err(${state.utils.stringify(inner)})`,
+      })
+    : state.utils.stringify(value);
+
+/**
+ * Vitest matchers for Results, register them with expect.extend(resultMatchers)
+ *
+ * expect(result).toBeOk();
+ * expect(result).toBeOk({ id: 1 }); // compared with deep equality
+ * expect(result).toBeErr();
+ * expect(result).toBeErrWith("NotFound");
+ */
+export const resultMatchers = {
+  toBeOk(this: MatcherState, received: unknown, ...expected: [unknown?]) {
+    const isOk = received instanceof Result && received.isOk();
+    const pass =
+      isOk &&
+      (expected.length === 0 || this.equals(received.value, expected[0]));
+    const target =
+      expected.length === 0 ? "Ok" : `Ok(${this.utils.stringify(expected[0])})`;
+    return {
+      pass,
+      message: () =>
+        `expected ${show(this, received)} ${this.isNot ? "not " : ""}to be ${target}`,
+      actual: isOk ? received.value : received,
+      expected: expected[0],
+    };
+  },
+
+  toBeErr(this: MatcherState, received: unknown) {
+    return {
+      pass: received instanceof Result && received.isErr(),
+      message: () =>
+        `expected ${show(this, received)} ${this.isNot ? "not " : ""}to be Err`,
+    };
+  },
+
+  toBeErrWith(this: MatcherState, received: unknown, expected: unknown) {
+    const isErr = received instanceof Result && received.isErr();
+    return {
+      pass: isErr && this.equals(received.error, expected),
+      message: () =>
+        `expected ${show(this, received)} ${this.isNot ? "not " : ""}to be Err(${this.utils.stringify(expected)})`,
+      actual: isErr ? received.error : received,
+      expected,
+    };
+  },
+};
@@ -0,0 +1,111 @@
+import { type OkOf, Result } from "./index";
+
+export type NonEmptyArray<T> = [T, ...T[]];
+
+// A single failed check, `path` is the dotted field path ("" for the root value)
+export type Issue<E> = { path: string; error: E };
+
+/**
+ * A Result whose Err holds every failed check instead of the first one
+ * Being a plain Result, it supports map, andThen, match and the rest of the API
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<Issue<E>>>;
+
+// Extracts the error type from a union of Validations
+export type IssueOf<V> = V extends Result<
+  unknown,
+  NonEmptyArray<Issue<infer E>>
+>
+  ? E
+  : never;
+
+type AnyValidation = Validation<unknown, unknown>;
+
+const joinPath = (prefix: string, path: string): string =>
+  prefix === "" ? path : path === "" ? prefix : `${prefix}.${path}`;
+
+export const valid = <T>(value: T): Validation<T, never> => Result.ok(value);
+
+export const invalid = <E>(error: E, path = ""): Validation<never, E> =>
+  Result.err([{ path, error }]);
+
+/**
+ * Lifts a Result into a Validation, recording its error at the given path
+ */
+export const fromResult = <T, E>(
+  result: Result<T, E>,
+  path = "",
+): Validation<T, E> => result.mapErr((error) => [{ path, error }]);
+
+/**
+ * Prefixes the paths of every issue, e.g. at("user", at("address", ...))
+ * reports errors under "user.address"
+ */
+export const at = <T, E>(
+  path: string,
+  validation: Validation<T, E>,
+): Validation<T, E> =>
+  validation.mapErr(
+    (issues) =>
+      issues.map((issue) => ({
+        path: joinPath(path, issue.path),
+        error: issue.error,
+      })) as NonEmptyArray<Issue<E>>,
+  );
+
+/**
+ * Runs every check against the value and keeps all failures
+ */
+export const check = <T, E>(
+  value: T,
+  checks: ((value: T) => Result<unknown, E>)[],
+): Validation<T, E> => {
+  const issues: Issue<E>[] = [];
+  for (const run of checks) {
+    const result = run(value);
+    if (result.isErr()) {
+      issues.push({ path: "", error: result.error });
+    }
+  }
+  return issues.length > 0
+    ? Result.err(issues as NonEmptyArray<Issue<E>>)
+    : Result.ok(value);
+};
+
+/**
+ * Combines independent Validations, accumulating the issues of all of them
+ * Tuples keep the type of every position, records the type of every key and
+ * prefix issue paths with the key
+ */
+export function combine<const V extends readonly AnyValidation[]>(
+  validations: V,
+): Validation<{ -readonly [K in keyof V]: OkOf<V[K]> }, IssueOf<V[number]>>;
+export function combine<V extends Record<string, AnyValidation>>(
+  validations: V,
+): Validation<{ [K in keyof V]: OkOf<V[K]> }, IssueOf<V[keyof V]>>;
+export function combine(
+  validations: readonly AnyValidation[] | Record<string, AnyValidation>,
+): AnyValidation {
+  const isArray = Array.isArray(validations);
+  const entries = Object.entries(validations);
+  const values: Record<string, unknown> = {};
+  const issues: Issue<unknown>[] = [];
+  for (const [key, validation] of entries) {
+    if (validation.isOk()) {
+      values[key] = validation.value;
+    } else {
+      const prefixed = isArray ? validation : at(key, validation);
+      issues.push(...prefixed.unwrapErr());
+    }
+  }
+  if (issues.length > 0) {
+    return Result.err(issues as NonEmptyArray<Issue<unknown>>);
+  }
+  return Result.ok(isArray ? entries.map(([key]) => values[key]) : values);
+}
+
+/**
+ * Drops the paths, turning a Validation into a plain Result<T, E[]>
+ */
+export const toResult = <T, E>(validation: Validation<T, E>): Result<T, E[]> =>
+  validation.mapErr((issues) => issues.map((issue) => issue.error));
@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { AsyncResult } from "@/async";
+import { wrapAsync } from "@/helpers";
+import { Err, Ok, Result, UnknownError } from "@/index";
+
+describe("AsyncResult", () => {
+  describe("creation", () => {
+    it("should be awaitable", async () => {
+      const result = await AsyncResult.ok(42);
+      expect(result).toBeInstanceOf(Result);
+      expect(result.unwrap()).toBe(42);
+    });
+
+    it("should wrap a Result or a promise of one", async () => {
+      expect(await AsyncResult.from(Ok(1)).unwrap()).toBe(1);
+      expect(await AsyncResult.from(Promise.resolve(Err("e"))).isErr()).toBe(
+        true,
+      );
+    });
+
+    it("should be returned by wrapAsync", async () => {
+      const result = wrapAsync(Promise.resolve(42));
+      expect(result).toBeInstanceOf(AsyncResult);
+      expect(await result.map((x) => x + 1).unwrap()).toBe(43);
+    });
+  });
+
+  describe("fromPromise", () => {
+    it("should settle promises into an AsyncResult", async () => {
+      expect(await AsyncResult.fromPromise(Promise.resolve(1)).unwrap()).toBe(
+        1,
+      );
+      const result = await AsyncResult.fromPromise(Promise.reject("nope"));
+      expect(result.unwrapErr()).toBeInstanceOf(UnknownError);
+    });
+
+    it("should map rejections with mapError", async () => {
+      const result = AsyncResult.fromPromise(
+        Promise.reject(new Error("failed")),
+        () => "Failed" as const,
+      );
+      expect((await result).unwrapErr()).toBe("Failed");
+    });
+  });
+
+  describe("Ok", () => {
+    it("should map with sync and async callbacks", async () => {
+      const mapped = AsyncResult.ok(2)
+        .map((x) => x * 2)
+        .map(async (x) => x + 1);
+      expect(await mapped.unwrap()).toBe(5);
+    });
+
+    it("should not map error with mapErr", async () => {
+      const mapped = AsyncResult.ok(42).mapErr((e) => `Error: ${e}`);
+      expect(await mapped.unwrap()).toBe(42);
+    });
+
+    it("should chain with andThen accepting sync and async callbacks", async () => {
+      const chained = AsyncResult.ok(42)
+        .andThen((x) => Ok(x * 2))
+        .andThen(async (x) => Ok(`${x}`))
+        .andThen((x) => AsyncResult.ok(x.length));
+      expect(await chained.unwrap()).toBe(2);
+    });
+
+    it("should chain with and", async () => {
+      expect(await AsyncResult.ok(1).and(Ok("two")).unwrap()).toBe("two");
+    });
+
+    it("should return self with or and orElse", async () => {
+      expect(await AsyncResult.ok(42).or(Ok(0)).unwrap()).toBe(42);
+      expect(
+        await AsyncResult.ok(42)
+          .orElse(() => Ok(0))
+          .unwrap(),
+      ).toBe(42);
+    });
+
+    it("should match the ok branch", async () => {
+      const matched = await AsyncResult.ok(42).match({
+        ok: (value) => `ok ${value}`,
+        err: (error) => `err ${error}`,
+      });
+      expect(matched).toBe("ok 42");
+    });
+  });
+
+  describe("Err", () => {
+    it("should not map value", async () => {
+      let called = false;
+      const mapped = AsyncResult.err("error").map(() => {
+        called = true;
+        return 0;
+      });
+      expect((await mapped).unwrapErr()).toBe("error");
+      expect(called).toBe(false);
+    });
+
+    it("should map error with sync and async callbacks", async () => {
+      const mapped = AsyncResult.err("error")
+        .mapErr((e) => e.toUpperCase())
+        .mapErr(async (e) => `Error: ${e}`);
+      expect((await mapped).unwrapErr()).toBe("Error: ERROR");
+    });
+
+    it("should short-circuit andThen", async () => {
+      let called = false;
+      const chained = AsyncResult.err("error").andThen(async () => {
+        called = true;
+        return Ok(1);
+      });
+      expect((await chained).unwrapErr()).toBe("error");
+      expect(called).toBe(false);
+    });
+
+    it("should recover with or and orElse", async () => {
+      expect(await AsyncResult.err("error").or(Ok(1)).unwrap()).toBe(1);
+      const recovered = AsyncResult.err("error").orElse(async (e) =>
+        Ok(`recovered from ${e}`),
+      );
+      expect(await recovered.unwrap()).toBe("recovered from error");
+    });
+
+    it("should return defaults with unwrapOr and unwrapOrElse", async () => {
+      expect(await AsyncResult.err("error").unwrapOr(0)).toBe(0);
+      expect(
+        await AsyncResult.err("error").unwrapOrElse(async (e) => e.length),
+      ).toBe(5);
+    });
+
+    it("should reject on unwrap and expect", async () => {
+      await expect(AsyncResult.err("error").unwrap()).rejects.toThrow(
+        "Called unwrap on an Err value: error",
+      );
+      await expect(AsyncResult.err("error").expect("custom")).rejects.toThrow(
+        "custom: error",
+      );
+    });
+
+    it("should match the err branch", async () => {
+      const matched = await AsyncResult.err("boom").match({
+        ok: (value: number) => value,
+        err: async (error) => error.length,
+      });
+      expect(matched).toBe(4);
+    });
+  });
+
+  describe("match", () => {
+    it("should dispatch on the _tag of tagged errors", async () => {
+      const result: AsyncResult<
+        number,
+        { _tag: "NotFound" } | { _tag: "Timeout"; ms: number }
+      > = AsyncResult.err({ _tag: "Timeout", ms: 100 });
+      const matched = await result.match({
+        ok: (value) => value,
+        err: {
+          NotFound: () => -1,
+          Timeout: async (error) => error.ms,
+        },
+      });
+      expect(matched).toBe(100);
+    });
+  });
+
+  describe("catchTag", () => {
+    it("should handle the matching variant with an async handler", async () => {
+      const result: AsyncResult<
+        number,
+        { _tag: "NotFound" } | { _tag: "Timeout" }
+      > = AsyncResult.err({ _tag: "NotFound" });
+      const handled: AsyncResult<number, { _tag: "Timeout" }> = result.catchTag(
+        "NotFound",
+        async () => Ok(0),
+      );
+      expect(await handled.unwrap()).toBe(0);
+    });
+
+    it("should pass other variants through", async () => {
+      const result: AsyncResult<
+        number,
+        { _tag: "NotFound" } | { _tag: "Timeout" }
+      > = AsyncResult.err({ _tag: "Timeout" });
+      const handled = await result.catchTag("NotFound", () => Ok(0));
+      expect(handled.unwrapErr()).toEqual({ _tag: "Timeout" });
+    });
+  });
+
+  describe("gen", () => {
+    const fetchUser = (id: number): AsyncResult<string, "NotFound"> =>
+      id === 1 ? AsyncResult.ok("alice") : AsyncResult.err("NotFound");
+    const validate = (name: string): Result<string, "Invalid"> =>
+      name.length > 3 ? Ok(name) : Err("Invalid");
+
+    it("should unwrap Results and AsyncResults with yield*", async () => {
+      const result: Result<string, "NotFound" | "Invalid"> =
+        await AsyncResult.gen(async function* () {
+          const user = yield* fetchUser(1).try();
+          const valid = yield* validate(user).try();
+          return valid.toUpperCase();
+        });
+      expect(result.unwrap()).toBe("ALICE");
+    });
+
+    it("should short-circuit on the first Err", async () => {
+      let reached = false;
+      const result = AsyncResult.gen(async function* () {
+        const user = yield* fetchUser(2).try();
+        reached = true;
+        return yield* validate(user).try();
+      });
+      expect((await result).unwrapErr()).toBe("NotFound");
+      expect(reached).toBe(false);
+    });
+  });
+
+  it("should iterate over the Ok value with for await", async () => {
+    const collected: number[] = [];
+    for await (const value of AsyncResult.ok(1)) {
+      collected.push(value);
+    }
+    for await (const value of AsyncResult.err("e")) {
+      collected.push(value);
+    }
+    expect(collected).toEqual([1]);
+  });
+});
@@ -0,0 +1,127 @@
+import { None, type Option, Some } from "@rustify/option";
+import { describe, expect, it } from "vitest";
+import {
+  array,
+  boolean,
+  DecodeError,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  type TypeOf,
+  union,
+} from "@/decode";
+import type { Result } from "@/index";
+
+const User = object({
+  name: string.refine((name) => name.length > 0, "non-empty string"),
+  age: number,
+  role: literal("admin", "member"),
+  email: optional(string),
+  tags: array(string),
+  address: object({ zip: union(string, number) }),
+});
+type User = TypeOf<typeof User>;
+
+describe("Decoders", () => {
+  describe("primitives", () => {
+    it("should decode matching values", () => {
+      expect(string.decode("a").unwrap()).toBe("a");
+      expect(number.decode(1).unwrap()).toBe(1);
+      expect(boolean.decode(false).unwrap()).toBe(false);
+      expect(literal("a", 1).decode(1).unwrap()).toBe(1);
+    });
+
+    it("should fail on other values", () => {
+      const result = number.decode("1");
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toHaveLength(1);
+      expect(result.unwrapErr()[0]).toBeInstanceOf(DecodeError);
+      expect(result.unwrapErr()[0].message).toBe(
+        "Expected number, received string",
+      );
+      expect(number.decode(Number.NaN).isErr()).toBe(true);
+      expect(literal("a", "b").decode("c").unwrapErr()[0].expected).toBe(
+        '"a" | "b"',
+      );
+    });
+  });
+
+  describe("object", () => {
+    const input = {
+      name: "alice",
+      age: 30,
+      role: "admin",
+      tags: ["x"],
+      address: { zip: 12345 },
+      extra: true,
+    };
+
+    it("should decode a typed object", () => {
+      const result: Result<User, DecodeError[]> = User.decode(input);
+      const user = result.unwrap();
+      expect(user.name).toBe("alice");
+      expect(user.address.zip).toBe(12345);
+      expect("extra" in user).toBe(false);
+    });
+
+    it("should map optional fields to Option", () => {
+      const email: Option<string> = User.decode(input).unwrap().email;
+      expect(email).toEqual(None);
+      const withEmail = User.decode({ ...input, email: "a@b.c" }).unwrap();
+      expect(withEmail.email).toEqual(Some("a@b.c"));
+    });
+
+    it("should accumulate every error with its path", () => {
+      const result = User.decode({
+        name: "",
+        age: "30",
+        role: "owner",
+        email: 1,
+        tags: ["x", 2],
+        address: { zip: true },
+      });
+      expect(
+        result
+          .unwrapErr()
+          .map((error) => [error.path, error.expected, error.received]),
+      ).toEqual([
+        ["name", "non-empty string", "string"],
+        ["age", "number", "string"],
+        ["role", '"admin" | "member"', "string"],
+        ["email", "string", "number"],
+        ["tags.1", "string", "number"],
+        ["address.zip", "string | number", "boolean"],
+      ]);
+      expect(result.unwrapErr()[4].message).toBe(
+        "Expected string at tags.1, received number",
+      );
+    });
+
+    it("should fail on non-objects", () => {
+      expect(User.decode(null).unwrapErr()[0].received).toBe("null");
+      expect(User.decode([]).unwrapErr()[0].received).toBe("array");
+    });
+  });
+
+  describe("combinators", () => {
+    it("should map decoded values", () => {
+      const date = string.map((value) => new Date(value));
+      expect(date.decode("2020-01-01").unwrap()).toBeInstanceOf(Date);
+    });
+
+    it("should keep the first successful union member", () => {
+      const id = union(number, string.map(Number));
+      expect(id.decode("42").unwrap()).toBe(42);
+    });
+
+    it("should fail refinements after decoding", () => {
+      const positive = number.refine((value) => value > 0, "positive number");
+      expect(positive.decode(-1).unwrapErr()[0].expected).toBe(
+        "positive number",
+      );
+      expect(positive.decode("1").unwrapErr()[0].expected).toBe("number");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { defineError, Err, Ok, type Result, TaggedError } from "@/index";
+
+const NotFound = defineError(
+  "NotFound",
+  (fields: { path: string }) => `${fields.path} not found`,
+);
+const Timeout = defineError("Timeout");
+class Forbidden extends defineError(
+  "Forbidden",
+  (fields: { user: string }) => `${fields.user} is not allowed`,
+) {}
+
+type FetchError = InstanceType<typeof NotFound> | InstanceType<typeof Timeout>;
+
+describe("Tagged errors", () => {
+  describe("defineError", () => {
+    it("should create tagged errors with structured fields", () => {
+      const error = new NotFound({ path: "/a" });
+      expect(error._tag).toBe("NotFound");
+      expect(error.path).toBe("/a");
+      expect(error.message).toBe("/a not found");
+      expect(error.name).toBe("NotFound");
+      expect(error.stack).toContain("NotFound: /a not found");
+    });
+
+    it("should be instances of TaggedError and Error", () => {
+      const error = new Timeout();
+      expect(error).toBeInstanceOf(Timeout);
+      expect(error).toBeInstanceOf(TaggedError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error._tag).toBe("Timeout");
+    });
+
+    it("should keep the cause", () => {
+      const cause = new Error("ECONNRESET");
+      const error = new NotFound({ path: "/a" }, { cause });
+      expect(error.cause).toBe(cause);
+    });
+
+    it("should be extendable as a class", () => {
+      const error = new Forbidden({ user: "bob" });
+      expect(error).toBeInstanceOf(Forbidden);
+      expect(error._tag).toBe("Forbidden");
+      expect(error.message).toBe("bob is not allowed");
+    });
+  });
+
+  describe("catchTag", () => {
+    const fetch = (path: string): Result<string, FetchError> =>
+      path === "/slow" ? Err(new Timeout()) : Err(new NotFound({ path }));
+
+    it("should handle the matching variant", () => {
+      const result: Result<string, InstanceType<typeof Timeout>> = fetch(
+        "/a",
+      ).catchTag("NotFound", (error) => Ok(`default for ${error.path}`));
+      expect(result.unwrap()).toBe("default for /a");
+    });
+
+    it("should pass other variants through", () => {
+      const result = fetch("/slow").catchTag("NotFound", () => Ok("default"));
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toBeInstanceOf(Timeout);
+    });
+
+    it("should narrow the error type to never once all variants are handled", () => {
+      const result: Result<string, never> = fetch("/slow")
+        .catchTag("NotFound", () => Ok("missing"))
+        .catchTag("Timeout", () => Ok("slow"));
+      expect(result.unwrap()).toBe("slow");
+    });
+
+    it("should not call the handler for Ok", () => {
+      const ok: Result<string, FetchError> = Ok("body");
+      const result = ok.catchTag("NotFound", () => Ok("default"));
+      expect(result.unwrap()).toBe("body");
+    });
+
+    it("should work on string literal errors", () => {
+      const result: Result<number, "NotFound" | "Forbidden"> = Err("NotFound");
+      const handled: Result<number, "Forbidden"> = result.catchTag(
+        "NotFound",
+        () => Ok(0),
+      );
+      expect(handled.unwrap()).toBe(0);
+    });
+  });
+});
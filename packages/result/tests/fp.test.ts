@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import * as R from "@/fp";
+import { flow, pipe } from "@/function";
+import { Err, Ok, Result, TaggedError } from "@/index";
+
+class NotFound extends TaggedError<"NotFound"> {
+  constructor() {
+    super("NotFound", "Not found");
+  }
+}
+
+class Invalid extends TaggedError<"Invalid"> {
+  constructor(readonly input: string) {
+    super("Invalid", `Invalid input: ${input}`);
+  }
+}
+
+const parse = (input: string): Result<number, Invalid> => {
+  const value = Number(input);
+  return Number.isNaN(value) ? Err(new Invalid(input)) : Ok(value);
+};
+
+describe("Result functions", () => {
+  it("should mirror the Result methods of the same name", () => {
+    for (const name of Object.keys(R)) {
+      expect(typeof Reflect.get(Result.prototype, name)).toBe("function");
+    }
+  });
+
+  it("should be callable data-first", () => {
+    expect(R.map(Ok(1), (x) => x + 1).unwrap()).toBe(2);
+    expect(R.mapErr(Err("e"), (e) => e.toUpperCase()).unwrapErr()).toBe("E");
+    expect(R.mapOr(Err("e"), 0, (x: number) => x + 1)).toBe(0);
+    expect(R.unwrapOr(Err("e"), "default")).toBe("default");
+  });
+
+  it("should be callable data-last in a pipe", () => {
+    const result = pipe(
+      parse("21"),
+      R.map((x) => x * 2),
+      R.andThen((x) => (x > 40 ? Ok(`${x}`) : Err("small" as const))),
+      R.mapErr((error) => (typeof error === "string" ? error : error._tag)),
+    );
+    expect(result.unwrap()).toBe("42");
+  });
+
+  it("should compose with flow", () => {
+    const describeInput = flow(
+      parse,
+      R.match({
+        ok: (value) => `number ${value}`,
+        err: (error) => error.message,
+      }),
+    );
+    expect(describeInput("1")).toBe("number 1");
+    expect(describeInput("x")).toBe("Invalid input: x");
+  });
+
+  it("should handle tagged errors data-last", () => {
+    const lookup = (id: number): Result<string, NotFound | Invalid> =>
+      id > 0 ? Err(new NotFound()) : Err(new Invalid(`${id}`));
+    const recovered = pipe(
+      lookup(1),
+      R.catchTag("NotFound", () => Ok("guest")),
+    );
+    expect(recovered.unwrap()).toBe("guest");
+    const described = pipe(
+      lookup(-1),
+      R.match({
+        ok: (name) => name,
+        err: { NotFound: () => "missing", Invalid: (error) => error.input },
+      }),
+    );
+    expect(described).toBe("-1");
+  });
+
+  it("should narrow with the type guards", () => {
+    const results: Result<number, string>[] = [Ok(1), Err("a"), Ok(2)];
+    expect(results.filter(R.isOk).map((result) => result.value)).toEqual([
+      1, 2,
+    ]);
+    expect(results.filter(R.isErr).map((result) => result.error)).toEqual([
+      "a",
+    ]);
+  });
+
+  it("should unwrap and convert Results", () => {
+    expect(pipe(Ok(1), R.expect("missing"))).toBe(1);
+    expect(pipe(Err("e"), R.expectErr("present"))).toBe("e");
+    expect(R.unwrapErr(Err("e"))).toBe("e");
+    expect(R.ok(Ok(1)).unwrap()).toBe(1);
+    expect(R.err(Ok(1)).isNone()).toBe(true);
+    expect(R.toArray(Err("e"))).toEqual([]);
+    expect(R.flatten(Ok(Ok(1))).unwrap()).toBe(1);
+    expect(
+      pipe(
+        Err("e"),
+        R.orElse(() => Ok(2)),
+        R.unwrap,
+      ),
+    ).toBe(2);
+  });
+});
@@ -1,6 +1,38 @@
 import { describe, expect, it } from "vitest";
-import { collect, wrapAsync, wrapSync } from "@/helpers";
-import { Err, Ok, type Result } from "@/index";
+import {
+  all,
+  allAsync,
+  allSettledAsync,
+  any,
+  collect,
+  collectAll,
+  collectObject,
+  mapAsync,
+  partition,
+  raceOk,
+  wrapAsync,
+  wrapSync,
+} from "@/helpers";
+import { Err, Ok, type Result, UnknownError } from "@/index";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Resolves after `ticks` macrotasks, recording whether its signal was aborted
+const settleAfter = <T, E>(
+  ticks: number,
+  result: Result<T, E>,
+  aborted: AbortSignal[] = [],
+) => {
+  return async (signal: AbortSignal) => {
+    for (let i = 0; i < ticks; i++) {
+      await tick();
+    }
+    if (signal.aborted) {
+      aborted.push(signal);
+    }
+    return result;
+  };
+};
 
 describe("Result helpers", () => {
   describe("wrapSync", () => {
@@ -61,4 +93,224 @@ describe("Result helpers", () => {
       expect(collected.unwrap()).toEqual([]);
     });
   });
+
+  describe("partition", () => {
+    it("should split Ok values and Err values", () => {
+      const results: Result<number, string>[] = [
+        Ok(1),
+        Err("a"),
+        Ok(3),
+        Err("b"),
+      ];
+      const [values, errors] = partition(results);
+      expect(values).toEqual([1, 3]);
+      expect(errors).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("collectAll", () => {
+    it("should collect all Ok results", () => {
+      expect(collectAll([Ok(1), Ok(2)]).unwrap()).toEqual([1, 2]);
+    });
+
+    it("should accumulate every error", () => {
+      const results: Result<number, string>[] = [Err("a"), Ok(2), Err("b")];
+      const collected = collectAll(results);
+      expect(collected.isErr()).toBe(true);
+      expect(collected.unwrapErr()).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("collectObject", () => {
+    it("should collect a record of Ok results", () => {
+      const collected: Result<{ a: number; b: string }, "A" | "B"> =
+        collectObject({
+          a: Ok(1) as Result<number, "A">,
+          b: Ok("two") as Result<string, "B">,
+        });
+      expect(collected.unwrap()).toEqual({ a: 1, b: "two" });
+    });
+
+    it("should return the first Err", () => {
+      const collected = collectObject({ a: Ok(1), b: Err("B"), c: Err("C") });
+      expect(collected.unwrapErr()).toBe("B");
+    });
+  });
+
+  describe("all", () => {
+    it("should keep positional types of tuples", () => {
+      const collected: Result<[number, string, boolean], "A" | "B"> = all([
+        Ok(1) as Result<number, "A">,
+        Ok("two") as Result<string, "B">,
+        Ok(true),
+      ]);
+      expect(collected.unwrap()).toEqual([1, "two", true]);
+    });
+
+    it("should accept records", () => {
+      const collected: Result<{ a: number; b: string }, never> = all({
+        a: Ok(1),
+        b: Ok("two"),
+      });
+      expect(collected.unwrap()).toEqual({ a: 1, b: "two" });
+    });
+
+    it("should return the first Err", () => {
+      expect(all([Ok(1), Err("a"), Err("b")]).unwrapErr()).toBe("a");
+      expect(all({ a: Err("a") }).unwrapErr()).toBe("a");
+    });
+  });
+
+  describe("any", () => {
+    it("should return the first Ok", () => {
+      expect(any([Err("a"), Ok(2), Ok(3)]).unwrap()).toBe(2);
+    });
+
+    it("should return all errors when there is no Ok", () => {
+      const results: Result<number, string>[] = [Err("a"), Err("b")];
+      expect(any(results).unwrapErr()).toEqual(["a", "b"]);
+      expect(any([]).unwrapErr()).toEqual([]);
+    });
+  });
+
+  describe("allAsync", () => {
+    it("should collect values in task order", async () => {
+      const result = await allAsync([
+        settleAfter(2, Ok(1)),
+        settleAfter(1, Ok(2)),
+      ]);
+      expect(result.unwrap()).toEqual([1, 2]);
+    });
+
+    it("should resolve on the first Err and abort the other tasks", async () => {
+      const aborted: AbortSignal[] = [];
+      const result = await allAsync<number, string>([
+        settleAfter(3, Ok(1), aborted),
+        settleAfter(1, Err("first")),
+        settleAfter(2, Err("second"), aborted),
+      ]);
+      expect(result.unwrapErr()).toBe("first");
+      await tick();
+      await tick();
+      await tick();
+      expect(aborted).toHaveLength(2);
+      expect(aborted[0]!.reason).toBe("first");
+    });
+
+    it("should resolve empty input to Ok([])", async () => {
+      expect((await allAsync([])).unwrap()).toEqual([]);
+    });
+
+    it("should reject when a task throws", async () => {
+      const failing = allAsync([
+        () => {
+          throw new Error("boom");
+        },
+      ]);
+      await expect(failing.isOk()).rejects.toThrow("boom");
+    });
+  });
+
+  describe("allSettledAsync", () => {
+    it("should keep every outcome", async () => {
+      const results = await allSettledAsync<number, Error | string>([
+        async () => Ok(1),
+        () => wrapAsync(Promise.reject(new Error("failed"))),
+        () => Err("sync"),
+      ]);
+      expect(results.map((result) => result.isOk())).toEqual([
+        true,
+        false,
+        false,
+      ]);
+      expect(results[2]!.unwrapErr()).toBe("sync");
+    });
+
+    it("should settle rejected and throwing tasks as Err", async () => {
+      const results = await allSettledAsync<number, string>([
+        async () => Ok(1),
+        () => Promise.reject(new Error("boom")),
+        () => {
+          throw "thrown";
+        },
+      ]);
+      expect(results[0]!.unwrap()).toBe(1);
+      expect(results[1]!.unwrapErr()).toEqual(new Error("boom"));
+      expect(results[2]!.unwrapErr()).toBeInstanceOf(UnknownError);
+    });
+  });
+
+  describe("raceOk", () => {
+    it("should resolve with the first Ok and abort the others", async () => {
+      const aborted: AbortSignal[] = [];
+      const result = await raceOk<string, string>([
+        settleAfter(3, Ok("slow"), aborted),
+        settleAfter(1, Err("failed")),
+        settleAfter(2, Ok("fast")),
+      ]);
+      expect(result.unwrap()).toBe("fast");
+      await tick();
+      expect(aborted).toHaveLength(1);
+    });
+
+    it("should return every error in task order when all fail", async () => {
+      const result = await raceOk([
+        settleAfter(2, Err("a")),
+        settleAfter(1, Err("b")),
+      ]);
+      expect(result.unwrapErr()).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("mapAsync", () => {
+    it("should map items keeping their order", async () => {
+      const result = await mapAsync([3, 1, 2], async (n) => {
+        await settleAfter(n, Ok(null))(new AbortController().signal);
+        return Ok(n * 10);
+      });
+      expect(result.unwrap()).toEqual([30, 10, 20]);
+    });
+
+    it("should respect the concurrency limit", async () => {
+      let running = 0;
+      let peak = 0;
+      const result = await mapAsync(
+        [1, 2, 3, 4, 5],
+        async (n) => {
+          running++;
+          peak = Math.max(peak, running);
+          await tick();
+          running--;
+          return Ok(n);
+        },
+        { concurrency: 2 },
+      );
+      expect(result.unwrap()).toEqual([1, 2, 3, 4, 5]);
+      expect(peak).toBe(2);
+    });
+
+    it("should stop starting items after the first Err", async () => {
+      const started: number[] = [];
+      const result = await mapAsync(
+        [1, 2, 3, 4],
+        async (n) => {
+          started.push(n);
+          await tick();
+          return n === 2 ? Err(`failed ${n}`) : Ok(n);
+        },
+        { concurrency: 2 },
+      );
+      expect(result.unwrapErr()).toBe("failed 2");
+      await tick();
+      expect(started).toEqual([1, 2, 3]);
+    });
+
+    it("should reject invalid concurrency", () => {
+      for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+        expect(() =>
+          mapAsync([1], async (n) => Ok(n), { concurrency }),
+        ).toThrow(RangeError);
+      }
+    });
+  });
 });
@@ -0,0 +1,64 @@
+import { None, type Option, Some } from "@rustify/option";
+import { describe, expect, it } from "vitest";
+import { Err, Ok, type Result } from "@/index";
+import { okOr, okOrElse, transpose } from "@/interop";
+
+describe("Option interop", () => {
+  describe("okOr", () => {
+    it("should convert Some into Ok", () => {
+      const result = okOr(Some(42), "missing");
+      expect(result.isOk()).toBe(true);
+      expect(result.unwrap()).toBe(42);
+    });
+
+    it("should convert None into Err", () => {
+      const result = okOr(None, "missing");
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toBe("missing");
+    });
+  });
+
+  describe("okOrElse", () => {
+    it("should not compute the error for Some", () => {
+      let called = false;
+      const result = okOrElse(Some(42), () => {
+        called = true;
+        return "missing";
+      });
+      expect(result.unwrap()).toBe(42);
+      expect(called).toBe(false);
+    });
+
+    it("should compute the error for None", () => {
+      const result = okOrElse(None, () => "missing");
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toBe("missing");
+    });
+  });
+
+  describe("transpose", () => {
+    it("should transpose None into Ok(None)", () => {
+      const option: Option<Result<number, string>> = None;
+      const result = transpose(option);
+      expect(result.isOk()).toBe(true);
+      expect(result.unwrap().isNone()).toBe(true);
+    });
+
+    it("should transpose Some(Ok) into Ok(Some)", () => {
+      const result = transpose(Some(Ok(42)));
+      expect(result.isOk()).toBe(true);
+      expect(result.unwrap().unwrap()).toBe(42);
+    });
+
+    it("should transpose Some(Err) into Err", () => {
+      const result = transpose(Some(Err("error")));
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toBe("error");
+    });
+
+    it("should round-trip with Result.transpose", () => {
+      const option = Some(Ok<number>(42));
+      expect(transpose(option).transpose().unwrap().unwrap()).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { None, Option, Some } from "@rustify/option";
+import { describe, expect, it } from "vitest";
+import { Err, Ok, type Result } from "@/index";
+import { AsyncIter, Iter } from "@/iter";
+
+function* naturals() {
+  let n = 0;
+  while (true) {
+    yield n++;
+  }
+}
+
+async function* countdown(from: number) {
+  for (let n = from; n > 0; n--) {
+    yield n;
+  }
+}
+
+const parse = (input: string): Result<number, string> => {
+  const n = Number(input);
+  return Number.isNaN(n) ? Err(`invalid: ${input}`) : Ok(n);
+};
+
+describe("Iter", () => {
+  describe("adapters", () => {
+    it("should be lazy over infinite sources", () => {
+      const evens = Iter.from(naturals())
+        .filter((n) => n % 2 === 0)
+        .map((n) => n * 10)
+        .take(3);
+      expect(evens.collect()).toEqual([0, 20, 40]);
+    });
+
+    it("should not run callbacks until consumed", () => {
+      let calls = 0;
+      const mapped = Iter.from([1, 2, 3]).map((n) => {
+        calls++;
+        return n;
+      });
+      expect(calls).toBe(0);
+      mapped.collect();
+      expect(calls).toBe(3);
+    });
+
+    it("should keep Some values with filterMap", () => {
+      const numbers = Iter.from(["1", "x", "3"]).filterMap((s) =>
+        parse(s).ok(),
+      );
+      expect(numbers.collect()).toEqual([1, 3]);
+    });
+
+    it("should stop at the first None with mapWhile", () => {
+      const prefix = Iter.from([1, 2, -1, 4]).mapWhile((n) =>
+        n > 0 ? Some(n) : None,
+      );
+      expect(prefix.collect()).toEqual([1, 2]);
+    });
+
+    it("should skip and enumerate", () => {
+      expect(Iter.from(["a", "b", "c"]).skip(1).enumerate().collect()).toEqual([
+        [0, "b"],
+        [1, "c"],
+      ]);
+    });
+
+    it("should zip to the shortest side", () => {
+      expect(Iter.from(naturals()).zip(["a", "b"]).collect()).toEqual([
+        [0, "a"],
+        [1, "b"],
+      ]);
+    });
+
+    it("should chain iterables", () => {
+      expect(Iter.from([1, 2]).chain(["three"]).collect()).toEqual([
+        1,
+        2,
+        "three",
+      ]);
+    });
+  });
+
+  describe("consumers", () => {
+    it("should find values as Options", () => {
+      expect(Iter.from(naturals()).find((n) => n > 2)).toEqual(Some(3));
+      expect(
+        Iter.from([1, 2])
+          .find((n) => n > 2)
+          .isNone(),
+      ).toBe(true);
+    });
+
+    it("should return the first Some with findMap", () => {
+      const found = Iter.from(["x", "2", "3"]).findMap((s) => parse(s).ok());
+      expect(found.unwrap()).toBe(2);
+    });
+
+    it("should short-circuit tryFold on Err", () => {
+      const seen: string[] = [];
+      const sum = (inputs: string[]) =>
+        Iter.from(inputs).tryFold(0, (acc, s) => {
+          seen.push(s);
+          return parse(s).map((n) => acc + n);
+        });
+      expect(sum(["1", "2"]).unwrap()).toBe(3);
+      expect(sum(["1", "x", "3"]).unwrapErr()).toBe("invalid: x");
+      expect(seen).toEqual(["1", "2", "1", "x"]);
+    });
+
+    it("should stop tryForEach at the first Err", () => {
+      const seen: number[] = [];
+      const result = Iter.from([1, 2, 3]).tryForEach((n) => {
+        seen.push(n);
+        return n < 2 ? Ok(n) : Err("too big");
+      });
+      expect(result.unwrapErr()).toBe("too big");
+      expect(seen).toEqual([1, 2]);
+    });
+
+    it("should fold and count", () => {
+      expect(Iter.from([1, 2, 3]).fold(0, (acc, n) => acc + n)).toBe(6);
+      expect(Iter.from("abc").count()).toBe(3);
+    });
+  });
+
+  describe("collecting", () => {
+    it("should collect entries into a Map", () => {
+      const map = Iter.from(["a", "bb"])
+        .map((s) => [s, s.length] as const)
+        .collectMap();
+      expect(map).toEqual(
+        new Map([
+          ["a", 1],
+          ["bb", 2],
+        ]),
+      );
+    });
+
+    it("should collect Results, stopping at the first Err", () => {
+      expect(Iter.from(["1", "2"]).map(parse).collectResult().unwrap()).toEqual(
+        [1, 2],
+      );
+      const failing = Iter.from(naturals()).map((n) =>
+        n < 3 ? Ok(n) : Err(`stopped at ${n}`),
+      );
+      expect(failing.collectResult().unwrapErr()).toBe("stopped at 3");
+    });
+
+    it("should collect Options, stopping at the first None", () => {
+      expect(Iter.from([Some(1), Some(2)]).collectOption()).toEqual(
+        Some([1, 2]),
+      );
+      const failing = Iter.from(naturals()).map((n) =>
+        n < 3 ? Some(n) : Option.none,
+      );
+      expect(failing.collectOption().isNone()).toBe(true);
+    });
+  });
+});
+
+describe("AsyncIter", () => {
+  it("should adapt async iterables with async callbacks", async () => {
+    const values = await AsyncIter.from(countdown(5))
+      .filter(async (n) => n % 2 === 1)
+      .map(async (n) => n * 10)
+      .take(2)
+      .collect();
+    expect(values).toEqual([50, 30]);
+  });
+
+  it("should accept sync iterables", async () => {
+    const values = await AsyncIter.from([1, 2, 3])
+      .filterMap((n) => (n === 2 ? None : Some(n)))
+      .collect();
+    expect(values).toEqual([1, 3]);
+  });
+
+  it("should mapWhile, zip and chain", async () => {
+    const values = await AsyncIter.from(countdown(5))
+      .mapWhile(async (n) => (n > 2 ? Some(n) : None))
+      .zip(naturals())
+      .chain(countdown(1))
+      .collect();
+    expect(values).toEqual([[5, 0], [4, 1], [3, 2], 1]);
+  });
+
+  it("should findMap and fold", async () => {
+    const found = await AsyncIter.from(countdown(5)).findMap(async (n) =>
+      n < 3 ? Some(n) : None,
+    );
+    expect(found.unwrap()).toBe(2);
+    expect(await AsyncIter.from(countdown(3)).fold(0, (a, n) => a + n)).toBe(6);
+  });
+
+  it("should short-circuit tryFold and tryForEach on Err", async () => {
+    const sum = await AsyncIter.from(["1", "x"]).tryFold(0, async (acc, s) =>
+      parse(s).map((n) => acc + n),
+    );
+    expect(sum.unwrapErr()).toBe("invalid: x");
+
+    const seen: number[] = [];
+    const result = await AsyncIter.from(countdown(3)).tryForEach(async (n) => {
+      seen.push(n);
+      return n > 2 ? Ok(n) : Err("stop");
+    });
+    expect(result.unwrapErr()).toBe("stop");
+    expect(seen).toEqual([3, 2]);
+  });
+
+  it("should collect into Maps, Results and Options", async () => {
+    const map = await AsyncIter.from(countdown(2))
+      .map((n) => [n, `${n}`] as const)
+      .collectMap();
+    expect(map.get(2)).toBe("2");
+
+    const results = await AsyncIter.from(["1", "2"]).map(parse).collectResult();
+    expect(results.unwrap()).toEqual([1, 2]);
+
+    const options = await AsyncIter.from([Some(1), None]).collectOption();
+    expect(options.isNone()).toBe(true);
+  });
+});
@@ -0,0 +1,225 @@
+import { None, Option, Some } from "@rustify/option";
+import { describe, expect, it } from "vitest";
+import {
+  defineError,
+  Err,
+  JsonShapeError,
+  Ok,
+  Result,
+  UnwrapError,
+} from "@/index";
+import {
+  deserialize,
+  deserializeError,
+  optionFromJSON,
+  registerError,
+  replacer,
+  reviver,
+  serialize,
+  serializeError,
+} from "@/json";
+
+const NotFound = defineError(
+  "NotFound",
+  (fields: { path: string }) => `${fields.path} not found`,
+);
+registerError("NotFound", NotFound);
+
+class DatabaseError extends Error {
+  override name = "DatabaseError";
+  constructor(
+    message: string,
+    readonly query: string,
+  ) {
+    super(message);
+  }
+}
+
+describe("JSON", () => {
+  describe("toJSON", () => {
+    it("should serialize Ok and Err to a stable wire format", () => {
+      expect(JSON.stringify(Ok(42))).toBe('{"$result":"Ok","value":42}');
+      expect(JSON.stringify(Err("error"))).toBe(
+        '{"$result":"Err","error":"error"}',
+      );
+    });
+
+    it("should serialize nested Results and Options", () => {
+      expect(JSON.stringify({ a: Ok(Some(1)), b: Err(None) })).toBe(
+        '{"a":{"$result":"Ok","value":{"$option":"Some","value":1}},"b":{"$result":"Err","error":{"$option":"None"}}}',
+      );
+    });
+  });
+
+  describe("Result.fromJSON", () => {
+    it("should revive Ok and Err", () => {
+      const ok = Result.fromJSON(JSON.parse('{"$result":"Ok","value":42}'));
+      expect(ok.unwrap().unwrap()).toBe(42);
+      const err = Result.fromJSON(JSON.parse('{"$result":"Err","error":"e"}'));
+      expect(err.unwrap().unwrapErr()).toBe("e");
+    });
+
+    it("should keep the types of a typed ResultJSON", () => {
+      const result: Result<
+        Result<number, string>,
+        JsonShapeError
+      > = Result.fromJSON(Ok<number>(42).toJSON());
+      expect(result.unwrap().unwrap()).toBe(42);
+    });
+
+    it("should return JsonShapeError for invalid input", () => {
+      for (const json of [null, 42, "ok", [], { ok: true, value: 1 }, {}]) {
+        const result = Result.fromJSON(json);
+        expect(result.isErr()).toBe(true);
+        expect(result.unwrapErr()).toBeInstanceOf(JsonShapeError);
+        expect(result.unwrapErr()._tag).toBe("JsonShapeError");
+      }
+    });
+  });
+
+  describe("optionFromJSON", () => {
+    it("should revive Some and None", () => {
+      expect(
+        optionFromJSON({ $option: "Some", value: 1 }).unwrap().unwrap(),
+      ).toBe(1);
+      expect(optionFromJSON({ $option: "None" }).unwrap().isNone()).toBe(true);
+    });
+
+    it("should return JsonShapeError for invalid input", () => {
+      const result = optionFromJSON({ value: 1 });
+      expect(result.unwrapErr()).toBeInstanceOf(JsonShapeError);
+    });
+  });
+
+  describe("reviver", () => {
+    it("should round-trip nested Results and Options", () => {
+      const original = { user: Ok(Some({ name: "alice" })), error: Err("e") };
+      const revived = JSON.parse(JSON.stringify(original), reviver);
+      expect(revived.user).toBeInstanceOf(Result);
+      expect(revived.user.unwrap()).toBeInstanceOf(Option);
+      expect(revived.user.unwrap().unwrap()).toEqual({ name: "alice" });
+      expect(revived.error.error).toBe("e");
+    });
+
+    it("should round-trip undefined payloads dropped by JSON.stringify", () => {
+      const roundTrip = (value: unknown) =>
+        JSON.parse(JSON.stringify(value), reviver);
+      const ok = roundTrip(Ok(undefined));
+      expect(ok).toBeInstanceOf(Result);
+      expect(ok.isOk()).toBe(true);
+      expect(ok.unwrap()).toBeUndefined();
+      const err = roundTrip(Err(undefined));
+      expect(err).toBeInstanceOf(Result);
+      expect(err.unwrapErr()).toBeUndefined();
+      const some = roundTrip(Some(undefined));
+      expect(some).toBeInstanceOf(Option);
+      expect(some.isSome()).toBe(true);
+      expect(some.unwrap()).toBeUndefined();
+    });
+
+    it("should round-trip through structured clone", () => {
+      const cloned = structuredClone(Ok([1, 2]).toJSON());
+      expect(Result.fromJSON(cloned).unwrap().unwrap()).toEqual([1, 2]);
+    });
+
+    it("should leave look-alike objects untouched", () => {
+      const revived = JSON.parse(
+        '{"status":{"ok":true},"auth":{"ok":false,"error":"invalid_auth"},"flag":{"some":false},"page":{"$result":"Ok","value":1,"next":2}}',
+        reviver,
+      );
+      expect(revived.status).toEqual({ ok: true });
+      expect(revived.auth).toEqual({ ok: false, error: "invalid_auth" });
+      expect(revived.flag).toEqual({ some: false });
+      expect(revived.page).toEqual({ $result: "Ok", value: 1, next: 2 });
+    });
+  });
+
+  describe("errors", () => {
+    const roundTrip = <T>(value: T): T =>
+      JSON.parse(JSON.stringify(value, replacer), reviver);
+
+    it("should keep name, message and stack of built-in errors", () => {
+      const original = new TypeError("bad input");
+      const revived = roundTrip(Err(original)).error;
+      expect(revived).toBeInstanceOf(TypeError);
+      expect(revived.name).toBe("TypeError");
+      expect(revived.message).toBe("bad input");
+      expect(revived.stack).toBe(original.stack);
+    });
+
+    it("should keep nested causes", () => {
+      const root = new RangeError("out of range");
+      const original = new Error("outer", {
+        cause: new Error("inner", { cause: root }),
+      });
+      const revived = roundTrip(Err(original)).error;
+      const inner = revived.cause as Error;
+      expect(inner.message).toBe("inner");
+      expect(inner.cause).toBeInstanceOf(RangeError);
+      expect((inner.cause as Error).message).toBe("out of range");
+    });
+
+    it("should keep the errors of an AggregateError", () => {
+      const original = new AggregateError(
+        [new TypeError("a"), new NotFound({ path: "/b" })],
+        "many",
+      );
+      const revived = roundTrip(Err(original)).error as AggregateError;
+      expect(revived).toBeInstanceOf(AggregateError);
+      expect(revived.message).toBe("many");
+      expect(revived.errors[0]).toBeInstanceOf(TypeError);
+      expect(revived.errors[1]).toBeInstanceOf(NotFound);
+    });
+
+    it("should rehydrate registered classes with their fields", () => {
+      const original = new NotFound({ path: "/a" }, { cause: "disk" });
+      const revived = roundTrip(Err(original)).error;
+      expect(revived).toBeInstanceOf(NotFound);
+      expect(revived._tag).toBe("NotFound");
+      expect(revived.path).toBe("/a");
+      expect(revived.message).toBe("/a not found");
+      expect(revived.cause).toBe("disk");
+    });
+
+    it("should fall back to Error for unregistered classes", () => {
+      const original = new DatabaseError("timeout", "SELECT 1");
+      const revived = deserializeError(serializeError(original));
+      expect(revived).toBeInstanceOf(Error);
+      expect(revived).not.toBeInstanceOf(DatabaseError);
+      expect(revived.name).toBe("DatabaseError");
+      expect((revived as DatabaseError).query).toBe("SELECT 1");
+
+      registerError("DatabaseError", DatabaseError);
+      expect(deserializeError(serializeError(original))).toBeInstanceOf(
+        DatabaseError,
+      );
+    });
+
+    it("should not let props replace the prototype", () => {
+      const revived = JSON.parse(
+        '{"$error":"TypeError","message":"bad","props":{"__proto__":{"admin":true}}}',
+        reviver,
+      );
+      expect(revived).toBeInstanceOf(TypeError);
+      expect(revived.admin).toBeUndefined();
+      expect(Object.hasOwn(revived, "__proto__")).toBe(true);
+    });
+
+    it("should survive structured cloning with serialize and deserialize", () => {
+      const original = {
+        results: [Ok(1), Err(new UnwrapError("failed", new TypeError("x")))],
+        missing: None,
+      };
+      const revived = deserialize(structuredClone(serialize(original))) as {
+        results: Result<number, UnwrapError<TypeError>>[];
+        missing: Option<number>;
+      };
+      expect(revived.results[0].unwrap()).toBe(1);
+      const error = revived.results[1].unwrapErr();
+      expect(error).toBeInstanceOf(UnwrapError);
+      expect(error.message).toBe("failed: TypeError: x");
+      expect(error.cause).toBeInstanceOf(TypeError);
+      expect(revived.missing.isNone()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { bench, describe } from "vitest";
+import { Err, Ok, type Result } from "@/index";
+
+// 1,000 inputs per run, the overhead budget is checked by scripts/check-bench.mjs
+const inputs = Array.from({ length: 1_000 }, (_, index) =>
+  index % 4 === 0 ? undefined : index,
+);
+const results = inputs.map(
+  (input): Result<number, string> =>
+    input === undefined ? Err("missing") : Ok(input),
+);
+
+// Keeps the engine from optimizing the loops away
+const sink = { value: 0 };
+
+const halve = (value: number): number | undefined =>
+  value % 2 === 0 ? value / 2 : undefined;
+const halveResult = (value: number): Result<number, string> =>
+  value % 2 === 0 ? Ok(value / 2) : Err("odd");
+
+describe("map/andThen chain", () => {
+  bench("T | undefined", () => {
+    let sum = 0;
+    for (const input of inputs) {
+      const doubled = input === undefined ? undefined : input * 2;
+      const halved = doubled === undefined ? undefined : halve(doubled);
+      sum += halved ?? 0;
+    }
+    sink.value = sum;
+  });
+
+  bench("Result", () => {
+    let sum = 0;
+    for (const result of results) {
+      sum += result
+        .map((value) => value * 2)
+        .andThen(halveResult)
+        .unwrapOr(0);
+    }
+    sink.value = sum;
+  });
+});
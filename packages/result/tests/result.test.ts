@@ -1,5 +1,13 @@
+import { None, type Option, Some } from "@rustify/option";
 import { describe, expect, it } from "vitest";
-import { Err, Ok, Result } from "@/index";
+import {
+  Err,
+  ExpectError,
+  Ok,
+  Result,
+  UnknownError,
+  UnwrapError,
+} from "@/index";
 
 describe("Result", () => {
   describe("Ok", () => {
@@ -89,6 +97,51 @@ describe("Result", () => {
       );
     });
 
+    it("should throw UnwrapError carrying the original error", () => {
+      const original = { code: 404, reason: "not found" };
+      const result = Err(original);
+      try {
+        result.unwrap();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect(error).toBeInstanceOf(Error);
+        expect((error as UnwrapError).cause).toBe(original);
+        expect((error as UnwrapError).name).toBe("UnwrapError");
+        expect((error as UnwrapError).message).toBe(
+          'Called unwrap on an Err value: {"code":404,"reason":"not found"}',
+        );
+        expect((error as UnwrapError).stack).toBeDefined();
+      }
+    });
+
+    it("should throw ExpectError carrying the original error", () => {
+      const original = new TypeError("bad input");
+      const result = Err(original);
+      try {
+        result.expect("parsing failed");
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ExpectError);
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect((error as ExpectError).cause).toBe(original);
+        expect((error as ExpectError).name).toBe("ExpectError");
+        expect((error as ExpectError).message).toBe(
+          "parsing failed: TypeError: bad input",
+        );
+      }
+    });
+
+    it("should throw UnwrapError from the value and error getters", () => {
+      // The types hide them on the other variant, the getters still guard untyped access
+      expect(
+        () => (Err("error") as unknown as Ok<never, string>).value,
+      ).toThrow(UnwrapError);
+      expect(() => (Ok(42) as unknown as Err<number, never>).error).toThrow(
+        UnwrapError,
+      );
+    });
+
     it("should return default with unwrapOr", () => {
       const result = Err("error");
       expect(result.unwrapOr(42)).toBe(42);
@@ -154,6 +207,16 @@ describe("Result", () => {
     });
   });
 
+  describe("immutability", () => {
+    it("should freeze Ok and Err instances", () => {
+      expect(Object.isFrozen(Ok(1))).toBe(true);
+      expect(Object.isFrozen(Err("error"))).toBe(true);
+      expect(() => {
+        (Ok(1) as unknown as { _value: number })._value = 0;
+      }).toThrow(TypeError);
+    });
+  });
+
   describe("type narrowing", () => {
     it("should narrow types with isOk", () => {
       const result: Result<number, string> = Ok(42);
@@ -168,6 +231,446 @@ describe("Result", () => {
         expect(result.error).toBe("error");
       }
     });
+
+    it("should narrow on kind in switch statements", () => {
+      const describeResult = (result: Result<number, string>): string => {
+        switch (result.kind) {
+          case "Ok":
+            return `Ok(${result.value})`;
+          case "Err":
+            return `Err(${result.error})`;
+          default: {
+            const exhaustive: never = result;
+            return exhaustive;
+          }
+        }
+      };
+      expect(describeResult(Ok(1))).toBe("Ok(1)");
+      expect(describeResult(Err("e"))).toBe("Err(e)");
+    });
+
+    it("should narrow the other variant after an early return", () => {
+      const double = (
+        result: Result<number, string>,
+      ): Result<number, string> => {
+        if (result.isErr()) {
+          return result;
+        }
+        return Ok(result.value * 2);
+      };
+      expect(double(Ok(2)).unwrap()).toBe(4);
+      expect(double(Err("e")).unwrapErr()).toBe("e");
+    });
+
+    it("should only expose value on Ok and error on Err", () => {
+      const read = (result: Result<number, string>) => [
+        // @ts-expect-error value does not exist until the Result is narrowed
+        result.value,
+        // @ts-expect-error error does not exist until the Result is narrowed
+        result.error,
+      ];
+      expect(() => read(Ok(1))).toThrow(UnwrapError);
+    });
+  });
+
+  describe("conversion to Option", () => {
+    it("should convert Ok with ok and err", () => {
+      const result: Result<number, string> = Ok(42);
+      expect(result.ok().unwrap()).toBe(42);
+      expect(result.err().isNone()).toBe(true);
+    });
+
+    it("should convert Err with ok and err", () => {
+      const result: Result<number, string> = Err("error");
+      expect(result.ok().isNone()).toBe(true);
+      expect(result.err().unwrap()).toBe("error");
+    });
+
+    it("should transpose Ok(Some) into Some(Ok)", () => {
+      const result: Result<Option<number>, string> = Ok(Some(42));
+      const transposed = result.transpose();
+      expect(transposed.isSome()).toBe(true);
+      expect(transposed.unwrap().unwrap()).toBe(42);
+    });
+
+    it("should transpose Ok(None) into None", () => {
+      const result = Ok(None);
+      expect(result.transpose().isNone()).toBe(true);
+    });
+
+    it("should transpose Err into Some(Err)", () => {
+      const result = Err("error").map(() => Some(42));
+      const transposed = result.transpose();
+      expect(transposed.isSome()).toBe(true);
+      expect(transposed.unwrap().unwrapErr()).toBe("error");
+    });
+  });
+
+  describe("match", () => {
+    type FetchError =
+      | { _tag: "NotFound"; path: string }
+      | { _tag: "Timeout"; ms: number };
+
+    it("should match the ok branch", () => {
+      const result: Result<number, string> = Ok(42);
+      const matched = result.match({
+        ok: (value) => `ok ${value}`,
+        err: (error) => `err ${error}`,
+      });
+      expect(matched).toBe("ok 42");
+    });
+
+    it("should match the err branch", () => {
+      const result: Result<number, string> = Err("error");
+      const matched = result.match({
+        ok: (value) => value,
+        err: (error) => error.length,
+      });
+      expect(matched).toBe(5);
+    });
+
+    it("should dispatch on the _tag of tagged errors", () => {
+      const result: Result<number, FetchError> = Err({
+        _tag: "Timeout",
+        ms: 100,
+      });
+      const matched = result.match({
+        ok: (value) => `ok ${value}`,
+        err: {
+          NotFound: (error) => `missing ${error.path}`,
+          Timeout: (error) => `timed out after ${error.ms}ms`,
+        },
+      });
+      expect(matched).toBe("timed out after 100ms");
+    });
+
+    it("should dispatch on string literal errors", () => {
+      const result: Result<string, "NotFound" | "PermissionDenied"> =
+        Err("PermissionDenied");
+      const matched = result.match({
+        ok: (value) => value,
+        err: {
+          NotFound: () => "404",
+          PermissionDenied: () => "403",
+        },
+      });
+      expect(matched).toBe("403");
+    });
+
+    it("should require a handler for every variant", () => {
+      const result: Result<number, FetchError> = Err({
+        _tag: "Timeout",
+        ms: 100,
+      });
+      const incomplete = () =>
+        result.match({
+          ok: () => 0,
+          // @ts-expect-error the Timeout handler is missing
+          err: { NotFound: () => 1 },
+        });
+      expect(incomplete).toThrow("No match handler for error tag: Timeout");
+    });
+
+    it("should only accept tag handlers for tagged error unions", () => {
+      const byString = (result: Result<number, string>) =>
+        result.match({
+          ok: () => 0,
+          // @ts-expect-error string errors have no finite set of tags
+          err: {},
+        });
+      const byError = (result: Result<number, Error | FetchError>) =>
+        result.match({
+          ok: () => 0,
+          // @ts-expect-error plain Errors have no tag
+          err: { NotFound: () => 1, Timeout: () => 2 },
+        });
+      expect(() => byString(Err("e"))).toThrow(TypeError);
+      expect(() => byError(Err(new Error("e")))).toThrow(
+        "No match handler for error tag: undefined",
+      );
+    });
+  });
+
+  describe("iteration", () => {
+    it("should iterate over the Ok value", () => {
+      expect([...Ok(1).iter()]).toEqual([1]);
+      expect([...Err("e").iter()]).toEqual([]);
+      expect(Array.from(Ok("a").iter())).toEqual(["a"]);
+    });
+
+    it("should spread like iter", () => {
+      expect([...Ok(1)]).toEqual([1]);
+      expect([...Err("e")]).toEqual([]);
+      expect(Array.from(Ok("a"))).toEqual(["a"]);
+    });
+
+    it("should iterate over the Err value", () => {
+      expect([...Err("e").iterErr()]).toEqual(["e"]);
+      expect([...Ok(1).iterErr()]).toEqual([]);
+    });
+
+    it("should drop Err values with Array#flatMap and toArray", () => {
+      const results: Result<number, string>[] = [Ok(1), Err("e"), Ok(3)];
+      expect(results.flatMap((result) => result.toArray())).toEqual([1, 3]);
+    });
+
+    it("should flatten nested Results", () => {
+      const nested: Result<Result<number, "inner">, "outer"> = Ok(Ok(1));
+      expect(nested.flatten().unwrap()).toBe(1);
+      expect(Ok(Err("inner")).flatten().unwrapErr()).toBe("inner");
+      expect(
+        (Err("outer") as Result<Result<number, string>, string>)
+          .flatten()
+          .unwrapErr(),
+      ).toBe("outer");
+    });
+
+    it("should alias andThen as flatMap", () => {
+      const half = (x: number): Result<number, string> =>
+        x % 2 === 0 ? Ok(x / 2) : Err("odd");
+      expect(Ok(4).flatMap(half).unwrap()).toBe(2);
+      expect(Ok(3).flatMap(half).unwrapErr()).toBe("odd");
+    });
+  });
+
+  describe("gen", () => {
+    const parse = (input: string): Result<number, "NaN"> => {
+      const value = Number(input);
+      return Number.isNaN(value) ? Err("NaN") : Ok(value);
+    };
+    const positive = (value: number): Result<number, "Negative"> =>
+      value < 0 ? Err("Negative") : Ok(value);
+
+    it("should unwrap Ok values with yield*", () => {
+      const result: Result<number, "NaN" | "Negative"> = Result.gen(
+        function* () {
+          const a = yield* parse("20").try();
+          const b = yield* positive(a).try();
+          return b + 1;
+        },
+      );
+      expect(result.unwrap()).toBe(21);
+    });
+
+    it("should short-circuit on the first Err", () => {
+      let reached = false;
+      const result = Result.gen(function* () {
+        const a = yield* parse("-5").try();
+        const b = yield* positive(a).try();
+        reached = true;
+        return yield* parse(`${b}x`).try();
+      });
+      expect(result.isErr()).toBe(true);
+      expect(result.unwrapErr()).toBe("Negative");
+      expect(reached).toBe(false);
+    });
+
+    it("should keep Results comparable with toEqual", () => {
+      expect(Ok(1)).toEqual(Ok(1));
+      expect(Ok(1)).not.toEqual(Ok(2));
+      expect(Err("a")).toEqual(Err("a"));
+      expect(Err("a")).not.toEqual(Err("b"));
+      expect(Ok(1)).not.toEqual(Err(1));
+    });
+
+    it("should run finally blocks when short-circuiting", () => {
+      let cleanedUp = false;
+      const result = Result.gen(function* () {
+        try {
+          return yield* parse("oops").try();
+        } finally {
+          cleanedUp = true;
+        }
+      });
+      expect(result.unwrapErr()).toBe("NaN");
+      expect(cleanedUp).toBe(true);
+    });
+  });
+
+  describe("Rust parity", () => {
+    const ok: Result<number, string> = Ok(2);
+    const err: Result<number, string> = Err("failed");
+
+    it("should map with a default", () => {
+      expect(ok.mapOr(0, (x) => x * 2)).toBe(4);
+      expect(err.mapOr(0, (x) => x * 2)).toBe(0);
+      expect(
+        ok.mapOrElse(
+          (e) => e.length,
+          (x) => x * 2,
+        ),
+      ).toBe(4);
+      expect(
+        err.mapOrElse(
+          (e) => e.length,
+          (x) => x * 2,
+        ),
+      ).toBe(6);
+    });
+
+    it("should inspect values and errors without changing the Result", () => {
+      const seen: unknown[] = [];
+      expect(
+        ok.inspect((x) => seen.push(x)).inspectErr(() => seen.push("no")),
+      ).toBe(ok);
+      expect(
+        err.inspect(() => seen.push("no")).inspectErr((e) => seen.push(e)),
+      ).toBe(err);
+      expect(seen).toEqual([2, "failed"]);
+    });
+
+    it("should test the contained value or error", () => {
+      expect(ok.isOkAnd((x) => x > 1)).toBe(true);
+      expect(err.isOkAnd(() => true)).toBe(false);
+      expect(err.isErrAnd((e) => e === "failed")).toBe(true);
+      expect(ok.isErrAnd(() => true)).toBe(false);
+    });
+
+    it("should unwrap the error with unwrapErr and expectErr", () => {
+      expect(err.unwrapErr()).toBe("failed");
+      expect(err.expectErr("should fail")).toBe("failed");
+      expect(() => ok.unwrapErr()).toThrow(UnwrapError);
+      expect(() => ok.unwrapErr()).toThrow(
+        "Called unwrapErr on an Ok value: 2",
+      );
+      expect(() => ok.expectErr("should fail")).toThrow(ExpectError);
+    });
+
+    it("should fall back to the provider with unwrapOrDefault", () => {
+      const list: Result<number[], string> = Err("failed");
+      expect(list.unwrapOrDefault(() => [])).toEqual([]);
+      expect(Ok([1]).unwrapOrDefault(() => [])).toEqual([1]);
+    });
+
+    it("should chain async callbacks with andThenAsync", async () => {
+      const half = async (x: number): Promise<Result<number, "odd">> =>
+        x % 2 === 0 ? Ok(x / 2) : Err("odd");
+      expect((await ok.andThenAsync(half)).unwrap()).toBe(1);
+      expect((await Ok(3).andThenAsync(half)).unwrapErr()).toBe("odd");
+      expect((await err.andThenAsync(half)).unwrapErr()).toBe("failed");
+    });
+
+    it("should unwrap infallible Results with intoOk and intoErr", () => {
+      const infallible: Result<number, never> = Ok(1);
+      const impossible: Result<never, string> = Err("always");
+      expect(infallible.intoOk()).toBe(1);
+      expect(impossible.intoErr()).toBe("always");
+      // @ts-expect-error the error type is not never
+      expect(() => ok.intoOk()).not.toThrow();
+      // @ts-expect-error the value type is not never
+      expect(() => err.intoErr()).not.toThrow();
+    });
+  });
+
+  describe("equality and ordering", () => {
+    it("should compare values and errors deeply by default", () => {
+      expect(Ok({ a: [1] }).equals(Ok({ a: [1] }))).toBe(true);
+      expect(Ok({ a: [1] }).equals(Ok({ a: [2] }))).toBe(false);
+      expect(Err(new Error("x")).equals(Err(new Error("x")))).toBe(true);
+      expect(Err(new Error("x")).equals(Err(new Error("y")))).toBe(false);
+      const ok: Result<number, number> = Ok(1);
+      expect(ok.equals(Err(1))).toBe(false);
+    });
+
+    it("should accept custom equalities", () => {
+      const caseInsensitive = (a: string, b: string) =>
+        a.toLowerCase() === b.toLowerCase();
+      expect(Ok("A").equals(Ok("a"), caseInsensitive)).toBe(true);
+      expect(Err("A").equals(Err("a"), undefined, caseInsensitive)).toBe(true);
+    });
+
+    it("should order Ok before Err like Rust", () => {
+      const results: Result<number, string>[] = [
+        Err("b"),
+        Ok(2),
+        Err("a"),
+        Ok(1),
+      ];
+      results.sort((a, b) => a.compare(b));
+      expect(results.map((result) => result.hashKey())).toEqual([
+        "Ok(1)",
+        "Ok(2)",
+        'Err("a")',
+        'Err("b")',
+      ]);
+    });
+
+    it("should produce equal hash keys for deeply equal Results", () => {
+      expect(Ok({ a: 1, b: Some(2) }).hashKey()).toBe(
+        Ok({ b: Some(2), a: 1 }).hashKey(),
+      );
+      expect(Ok(1).hashKey()).not.toBe(Err(1).hashKey());
+
+      const counts = new Map<string, number>();
+      for (const result of [Ok([1]), Ok([1]), Err("e")]) {
+        const key = result.hashKey();
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      expect(counts.get(Ok([1]).hashKey())).toBe(2);
+    });
+  });
+
+  describe("fromThrowable", () => {
+    const parseJson = Result.fromThrowable((text: string): unknown =>
+      JSON.parse(text),
+    );
+
+    it("should keep the parameters and return Ok", () => {
+      const divide = Result.fromThrowable((a: number, b: number) => a / b);
+      expect(divide(6, 3).unwrap()).toBe(2);
+      expect(parseJson('{"a":1}').unwrap()).toEqual({ a: 1 });
+    });
+
+    it("should keep thrown Errors", () => {
+      const error = parseJson("{").unwrapErr();
+      expect(error).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should wrap non-Error throws in an UnknownError", () => {
+      const fail = Result.fromThrowable(() => {
+        throw "oops";
+      });
+      const error = fail().unwrapErr();
+      expect(error).toBeInstanceOf(UnknownError);
+      expect(error.cause).toBe("oops");
+      expect(error.message).toBe("Non-error value thrown: oops");
+    });
+
+    it("should map thrown values with mapError", () => {
+      const parse = Result.fromThrowable(
+        (text: string): unknown => JSON.parse(text),
+        () => "InvalidJson" as const,
+      );
+      const result: Result<unknown, "InvalidJson"> = parse("{");
+      expect(result.unwrapErr()).toBe("InvalidJson");
+    });
+  });
+
+  describe("fromPromise", () => {
+    it("should resolve to Ok", async () => {
+      const result = await Result.fromPromise(Promise.resolve(1));
+      expect(result.unwrap()).toBe(1);
+    });
+
+    it("should resolve rejections to Err", async () => {
+      const error = new Error("failed");
+      expect(
+        (await Result.fromPromise(Promise.reject(error))).unwrapErr(),
+      ).toBe(error);
+      const wrapped = (
+        await Result.fromPromise(Promise.reject(42))
+      ).unwrapErr();
+      expect(wrapped).toBeInstanceOf(UnknownError);
+      expect(wrapped.cause).toBe(42);
+    });
+
+    it("should map rejections with mapError", async () => {
+      const result = await Result.fromPromise(
+        Promise.reject(new Error("failed")),
+        (thrown) => ({ _tag: "FetchError", cause: thrown }) as const,
+      );
+      expect(result.unwrapErr()._tag).toBe("FetchError");
+    });
   });
 
   describe("callable constructors", () => {
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Err, Ok, type Result } from "@/index";
+import {
+  AbortError,
+  constant,
+  exponential,
+  jittered,
+  RetryError,
+  retry,
+  TimeoutError,
+  withTimeout,
+} from "@/retry";
+
+type FetchError = "Unavailable" | "NotFound";
+
+// Fails with the given errors in order, then succeeds
+const flaky = (...errors: FetchError[]) =>
+  vi.fn(
+    async (attempt: number): Promise<Result<string, FetchError>> =>
+      attempt <= errors.length ? Err(errors[attempt - 1]!) : Ok("data"),
+  );
+
+const delay = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe("Backoff", () => {
+  it("should grow exponentially up to the max", () => {
+    const backoff = exponential({ base: 100, max: 500 });
+    expect([1, 2, 3, 4].map(backoff)).toEqual([100, 200, 400, 500]);
+  });
+
+  it("should randomize delays with jittered", () => {
+    const backoff = jittered(constant(100), () => 0.25);
+    expect(backoff(1)).toBe(25);
+  });
+});
+
+describe("retry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return the first Ok", async () => {
+    const fn = flaky("Unavailable", "Unavailable");
+    const pending = retry(fn, { attempts: 3, backoff: constant(1000) });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await pending).unwrap()).toBe("data");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should wait according to the backoff", async () => {
+    const fn = flaky("Unavailable", "Unavailable");
+    const pending = retry(fn, { attempts: 3, backoff: exponential() });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await pending.isOk()).toBe(true);
+  });
+
+  it("should give up with a RetryError holding every error", async () => {
+    const fn = flaky("Unavailable", "Unavailable", "Unavailable");
+    const pending = retry(fn, { attempts: 2, backoff: constant(10) });
+    await vi.advanceTimersByTimeAsync(10);
+
+    const error = (await pending).unwrapErr();
+    expect(error).toBeInstanceOf(RetryError);
+    const retryError = error as RetryError<FetchError>;
+    expect(retryError._tag).toBe("RetryError");
+    expect(retryError.attempts).toBe(2);
+    expect(retryError.errors).toEqual(["Unavailable", "Unavailable"]);
+    expect(retryError.cause).toBe("Unavailable");
+    expect(retryError.message).toBe("Failed after 2 attempts");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry errors rejected by retryIf", async () => {
+    const fn = flaky("NotFound");
+    const result = await retry(fn, {
+      attempts: 5,
+      retryIf: (error) => error === "Unavailable",
+    });
+
+    expect((result.unwrapErr() as RetryError<FetchError>).errors).toEqual([
+      "NotFound",
+    ]);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(result.unwrapErr().message).toBe("Failed after 1 attempt");
+  });
+
+  it("should reject fewer than one attempt", () => {
+    for (const attempts of [0, -1, Number.NaN]) {
+      const fn = flaky();
+      expect(() => retry(fn, { attempts })).toThrow(RangeError);
+      expect(fn).not.toHaveBeenCalled();
+    }
+  });
+
+  it("should stop with an AbortError when the signal fires", async () => {
+    const controller = new AbortController();
+    const fn = flaky("Unavailable", "Unavailable");
+    const pending = retry(fn, {
+      attempts: 3,
+      backoff: constant(1000),
+      signal: controller.signal,
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort("cancelled");
+
+    const error = (await pending).unwrapErr();
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).reason).toBe("cancelled");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop with an AbortError during an attempt", async () => {
+    const controller = new AbortController();
+    const fn = vi.fn((_attempt: number, signal: AbortSignal) =>
+      delay(300, signal).then((): Result<string, FetchError> => Ok("late")),
+    );
+    const pending = retry(fn, { attempts: 3, signal: controller.signal });
+    let settled = false;
+    pending.then(() => {
+      settled = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(20);
+    controller.abort("cancelled");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(settled).toBe(true);
+    const error = (await pending).unwrapErr();
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).reason).toBe("cancelled");
+    expect(fn.mock.calls[0]![1].aborted).toBe(true);
+  });
+
+  it("should not call the operation when already aborted", async () => {
+    const fn = flaky();
+    const result = await retry(fn, {
+      attempts: 3,
+      signal: AbortSignal.abort(),
+    });
+    expect(result.unwrapErr()).toBeInstanceOf(AbortError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe("withTimeout", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should keep results that settle in time", async () => {
+    const pending = withTimeout(delay(50, Ok(1)), 100);
+    await vi.advanceTimersByTimeAsync(50);
+    expect((await pending).unwrap()).toBe(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should resolve to Err(TimeoutError) when too slow", async () => {
+    const pending = withTimeout(delay(200, Ok(1)), 100);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const error = (await pending).unwrapErr();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).ms).toBe(100);
+    expect((error as TimeoutError).message).toBe("Timed out after 100ms");
+  });
+
+  it("should abort the signal passed to the operation on timeout", async () => {
+    let received: AbortSignal | undefined;
+    const pending = withTimeout((signal) => {
+      received = signal;
+      return delay(200, Ok(1));
+    }, 100);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+
+    expect(received?.aborted).toBe(true);
+    expect(received?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should compose with retry", async () => {
+    let calls = 0;
+    const pending = retry(
+      () => withTimeout(delay(calls++ === 0 ? 500 : 10, Ok("data")), 100),
+      {
+        attempts: 2,
+        backoff: constant(0),
+        retryIf: (error) => error instanceof TimeoutError,
+      },
+    );
+    await vi.advanceTimersByTimeAsync(110);
+    expect((await pending).unwrap()).toBe("data");
+  });
+});
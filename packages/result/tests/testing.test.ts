@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { Err, Ok } from "@/index";
+import { resultMatchers } from "@/testing";
+
+expect.extend(resultMatchers);
+
+describe("resultMatchers", () => {
+  it("toBeOk should match any Ok or a deeply equal value", () => {
+    expect(Ok(1)).toBeOk();
+    expect(Ok({ a: [1] })).toBeOk({ a: [1] });
+    expect(Ok(1)).not.toBeOk(2);
+    expect(Err("e")).not.toBeOk();
+    expect(1).not.toBeOk();
+  });
+
+  it("toBeErr and toBeErrWith should match Errs", () => {
+    expect(Err("e")).toBeErr();
+    expect(Ok(1)).not.toBeErr();
+    expect(Err({ code: 404 })).toBeErrWith({ code: 404 });
+    expect(Err("e")).not.toBeErrWith("other");
+    expect(Ok("e")).not.toBeErrWith("e");
+  });
+
+  it("should report readable messages", () => {
+    expect(() => expect(Err("e")).toBeOk()).toThrow(
+      'expected Err("e") to be Ok',
+    );
+    expect(() => expect(Ok(1)).toBeErrWith("e")).toThrow(
+      'expected Ok(1) to be Err("e")',
+    );
+  });
+
+  it("should work as asymmetric matchers", () => {
+    expect([Ok(1), Err("e")]).toEqual([
+      expect.toBeOk(1),
+      expect.toBeErrWith("e"),
+    ]);
+  });
+});
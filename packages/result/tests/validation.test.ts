@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { Err, Ok, type Result } from "@/index";
+import {
+  at,
+  check,
+  combine,
+  fromResult,
+  invalid,
+  toResult,
+  type Validation,
+  valid,
+} from "@/validation";
+
+type Address = { street: string; zip: string };
+type User = { name: string; age: number; address: Address };
+
+const minLength =
+  (min: number) =>
+  (value: string): Result<string, string> =>
+    value.length >= min ? Ok(value) : Err(`must be at least ${min} characters`);
+const digitsOnly = (value: string): Result<string, string> =>
+  /^\d+$/.test(value) ? Ok(value) : Err("must contain only digits");
+const adult = (value: number): Result<number, string> =>
+  value >= 18 ? Ok(value) : Err("must be an adult");
+
+const validateAddress = (input: Address): Validation<Address, string> =>
+  combine({
+    street: check(input.street, [minLength(1)]),
+    zip: check(input.zip, [minLength(5), digitsOnly]),
+  });
+
+const validateUser = (input: User): Validation<User, string> =>
+  combine({
+    name: check(input.name, [minLength(2)]),
+    age: fromResult(adult(input.age)),
+    address: validateAddress(input.address),
+  });
+
+describe("Validation", () => {
+  it("should return the value when every check passes", () => {
+    const user = {
+      name: "Al",
+      age: 30,
+      address: { street: "Main", zip: "12345" },
+    };
+    expect(validateUser(user).unwrap()).toEqual(user);
+  });
+
+  it("should accumulate every error with its field path", () => {
+    const result = validateUser({
+      name: "A",
+      age: 12,
+      address: { street: "", zip: "1a" },
+    });
+    expect(result.isErr()).toBe(true);
+    expect(result.unwrapErr()).toEqual([
+      { path: "name", error: "must be at least 2 characters" },
+      { path: "age", error: "must be an adult" },
+      { path: "address.street", error: "must be at least 1 characters" },
+      { path: "address.zip", error: "must be at least 5 characters" },
+      { path: "address.zip", error: "must contain only digits" },
+    ]);
+  });
+
+  it("should combine tuples keeping positional types", () => {
+    const result: Validation<[number, string], string> = combine([
+      valid(1),
+      check("abc", [minLength(2)]),
+    ]);
+    expect(result.unwrap()).toEqual([1, "abc"]);
+
+    const failed = combine([invalid("a"), valid(2), invalid("b", "field")]);
+    expect(failed.unwrapErr()).toEqual([
+      { path: "", error: "a" },
+      { path: "field", error: "b" },
+    ]);
+  });
+
+  it("should prefix paths with at", () => {
+    const result = at("user", at("address", invalid("bad zip", "zip")));
+    expect(result.unwrapErr()).toEqual([
+      { path: "user.address.zip", error: "bad zip" },
+    ]);
+  });
+
+  it("should chain dependent steps as a plain Result", () => {
+    const result = check("12345", [digitsOnly]).map(Number);
+    expect(result.unwrap()).toBe(12345);
+  });
+
+  it("should convert back to Result<T, E[]>", () => {
+    const failed: Result<string, string[]> = toResult(
+      check("x", [minLength(2), digitsOnly]),
+    );
+    expect(failed.unwrapErr()).toEqual([
+      "must be at least 2 characters",
+      "must contain only digits",
+    ]);
+    expect(toResult(valid(1)).unwrap()).toBe(1);
+  });
+});
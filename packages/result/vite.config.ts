@@ -8,10 +8,23 @@ export default defineConfig({
     lib: {
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
-        helpers: resolve(__dirname, 'src/helpers.ts')
+        helpers: resolve(__dirname, 'src/helpers.ts'),
+        interop: resolve(__dirname, 'src/interop.ts'),
+        async: resolve(__dirname, 'src/async.ts'),
+        json: resolve(__dirname, 'src/json.ts'),
+        validation: resolve(__dirname, 'src/validation.ts'),
+        decode: resolve(__dirname, 'src/decode.ts'),
+        iter: resolve(__dirname, 'src/iter.ts'),
+        retry: resolve(__dirname, 'src/retry.ts'),
+        testing: resolve(__dirname, 'src/testing.ts'),
+        function: resolve(__dirname, 'src/function.ts'),
+        fp: resolve(__dirname, 'src/fp.ts')
       },
       formats: ['es'],
     },
+    rollupOptions: {
+      external: [/^@rustify\/option(\/|$)/]
+    },
     sourcemap: true,
   },
   resolve: {
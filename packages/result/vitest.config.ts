@@ -4,7 +4,9 @@ import { defineConfig } from 'vitest/config'
 export default defineConfig({
   resolve: {
     alias: {
-      '@': resolve(__dirname, 'src')
+      '@': resolve(__dirname, 'src'),
+      '@rustify/option/function': resolve(__dirname, '../option/src/function.ts'),
+      '@rustify/option': resolve(__dirname, '../option/src/index.ts')
     }
   },
   test: {
@@ -0,0 +1,38 @@
+// Checks the report of `vitest bench --outputJson <file>` against the
+// overhead budget, see "Benchmark all packages" in the root README
+import { readFileSync } from "node:fs";
+
+const BASELINE = "T | undefined";
+const CHAINS_PER_RUN = 1_000;
+const BUDGET_NS_PER_CHAIN = 250;
+
+const [report] = process.argv.slice(2);
+if (report === undefined) {
+  console.error("Usage: node check-bench.mjs <vitest bench JSON report>");
+  process.exit(2);
+}
+
+let failed = false;
+for (const file of JSON.parse(readFileSync(report, "utf8")).files) {
+  for (const group of file.groups) {
+    const baseline = group.benchmarks.find((entry) => entry.name === BASELINE);
+    if (baseline === undefined) {
+      continue;
+    }
+    for (const entry of group.benchmarks) {
+      if (entry === baseline) {
+        continue;
+      }
+      // Medians are in milliseconds per run
+      const overhead =
+        ((entry.median - baseline.median) * 1e6) / CHAINS_PER_RUN;
+      const ok = overhead <= BUDGET_NS_PER_CHAIN;
+      failed ||= !ok;
+      console.log(
+        `${ok ? "✓" : "✗"} ${group.fullName} > ${entry.name}: ` +
+          `+${overhead.toFixed(0)}ns per chain (budget ${BUDGET_NS_PER_CHAIN}ns)`,
+      );
+    }
+  }
+}
+process.exit(failed ? 1 : 0);